@@ -0,0 +1,308 @@
+// Batch analyzer for recorded sessions. Runs the dashboard's detectors over
+// CSV or JSON bar files without starting Next.js.
+//
+//   npm run analyze -- data/sessions
+//   npm run analyze -- --format ndjson --confidence high archive/*.csv
+import { readFile, readdir, stat } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { validatePoints } from "../src/lib/bars";
+import { parseBarsCsv, parseBarsJson } from "../src/lib/marketData/file";
+import {
+  type AnalysisConfigInput,
+  analyzeIntradayData,
+  listDetectors,
+} from "../src/lib/patternDetection";
+import { validateAnalysisConfigInput } from "../src/lib/analysisConfig";
+import { formatIstDateTime, formatIstTime } from "../src/lib/sessions";
+import type {
+  AnalysisSummary,
+  InsightConfidence,
+  IntradayPoint,
+} from "../src/lib/types";
+
+// 1: at least one input file could not be parsed or analyzed.
+// 2: the command line itself was wrong (unknown flag, missing path, bad config).
+const EXIT_MALFORMED_INPUT = 1;
+const EXIT_USAGE = 2;
+
+const FORMATS = ["table", "json", "ndjson"] as const;
+type Format = (typeof FORMATS)[number];
+
+const TIERS: InsightConfidence[] = ["low", "medium", "high"];
+const EXTENSIONS = new Set([".csv", ".json"]);
+
+const USAGE = `Usage: npm run analyze -- [options] <file|directory>...
+
+Reads OHLCV bars from .csv (timestamp,open,high,low,close,volume) or .json
+files; directories are searched recursively.
+
+Options:
+  -f, --format <table|json|ndjson>  Output format (default: table)
+  -d, --detector <id>               Only run these detectors (repeatable or
+                                    comma-separated)
+  -c, --confidence <low|medium|high>
+                                    Minimum insight confidence (default: low)
+      --config <file.json>          Analysis config (same shape as the API's)
+  -h, --help                        Show this help
+
+Detectors: ${listDetectors()
+  .map((definition) => definition.id)
+  .join(", ")}`;
+
+class UsageError extends Error {}
+
+interface FileReport {
+  file: string;
+  bars: number;
+  from: number;
+  to: number;
+  narrative: string;
+  stats: AnalysisSummary["stats"];
+  insights: Array<
+    AnalysisSummary["insights"][number] & { timestamp: number | null }
+  >;
+}
+
+async function collectFiles(inputs: string[]) {
+  const files: string[] = [];
+
+  const visit = async (target: string) => {
+    const info = await stat(target).catch(() => null);
+    if (!info) throw new UsageError(`No such file or directory: ${target}`);
+
+    if (info.isDirectory()) {
+      const entries = (await readdir(target)).sort();
+      for (const entry of entries) {
+        const child = path.join(target, entry);
+        const childInfo = await stat(child);
+        if (
+          childInfo.isDirectory() ||
+          EXTENSIONS.has(path.extname(entry).toLowerCase())
+        ) {
+          await visit(child);
+        }
+      }
+      return;
+    }
+
+    files.push(target);
+  };
+
+  for (const input of inputs) await visit(input);
+  return files;
+}
+
+async function readBars(file: string): Promise<IntradayPoint[]> {
+  const content = await readFile(file, "utf8");
+  const bars =
+    path.extname(file).toLowerCase() === ".json"
+      ? parseBarsJson(content)
+      : parseBarsCsv(content);
+
+  const validated = validatePoints(bars);
+  if (!validated.ok) throw new Error(validated.errors.join(" "));
+  if (validated.points.length === 0) throw new Error("No bars found.");
+  return validated.points;
+}
+
+function buildConfig(
+  base: AnalysisConfigInput,
+  detectors: string[],
+): AnalysisConfigInput {
+  if (detectors.length === 0) return base;
+
+  const known = listDetectors().map((definition) => definition.id);
+  const unknown = detectors.filter((id) => !known.includes(id));
+  if (unknown.length > 0) {
+    throw new UsageError(`Unknown detector(s): ${unknown.join(", ")}.`);
+  }
+
+  return {
+    ...base,
+    detectors: Object.fromEntries(
+      known.map((id) => [
+        id,
+        { ...base.detectors?.[id], enabled: detectors.includes(id) },
+      ]),
+    ),
+  };
+}
+
+function analyzeFile(
+  file: string,
+  points: IntradayPoint[],
+  config: AnalysisConfigInput,
+  minConfidence: InsightConfidence,
+): FileReport {
+  const summary = analyzeIntradayData(points, config);
+
+  return {
+    file,
+    bars: points.length,
+    from: points[0].timestamp,
+    to: points[points.length - 1].timestamp,
+    narrative: summary.narrative,
+    stats: summary.stats,
+    insights: summary.insights
+      .filter(
+        (insight) =>
+          TIERS.indexOf(insight.confidence) >= TIERS.indexOf(minConfidence),
+      )
+      .map((insight) => {
+        const index = insight.endIndex ?? insight.startIndex;
+        return {
+          ...insight,
+          timestamp: index === undefined ? null : points[index].timestamp,
+        };
+      }),
+  };
+}
+
+function pad(value: string, width: number) {
+  return value.length >= width
+    ? value.slice(0, width)
+    : value + " ".repeat(width - value.length);
+}
+
+function renderTable(report: FileReport) {
+  const lines = [
+    `== ${report.file} (${report.bars} bars, ${formatIstDateTime(
+      report.from,
+    )} → ${formatIstDateTime(report.to)})`,
+    report.narrative,
+    `Session Δ ${report.stats.sessionChangePct.toFixed(2)}% · range ${report.stats.rangePct.toFixed(
+      2,
+    )}% · high ${report.stats.sessionHigh.toFixed(2)} · low ${report.stats.sessionLow.toFixed(
+      2,
+    )} · avg volume ${Math.round(report.stats.avgVolume)}`,
+  ];
+
+  if (report.insights.length === 0) {
+    lines.push("No insights at this confidence.");
+  } else {
+    lines.push(
+      `${pad("CONF", 7)}${pad("BIAS", 9)}${pad("TIME", 7)}INSIGHT`,
+      ...report.insights.map(
+        (insight) =>
+          `${pad(insight.confidence, 7)}${pad(insight.direction ?? "-", 9)}${pad(
+            insight.timestamp === null ? "-" : formatIstTime(insight.timestamp),
+            7,
+          )}${insight.title}`,
+      ),
+    );
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+async function main(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: "string", short: "f", default: "table" },
+      detector: { type: "string", short: "d", multiple: true },
+      confidence: { type: "string", short: "c", default: "low" },
+      config: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+
+  const format = values.format as Format;
+  if (!FORMATS.includes(format)) {
+    throw new UsageError(`--format must be one of ${FORMATS.join(", ")}.`);
+  }
+  const minConfidence = values.confidence as InsightConfidence;
+  if (!TIERS.includes(minConfidence)) {
+    throw new UsageError(`--confidence must be one of ${TIERS.join(", ")}.`);
+  }
+  if (positionals.length === 0) {
+    throw new UsageError("Pass at least one file or directory.");
+  }
+
+  let baseConfig: AnalysisConfigInput = {};
+  if (values.config) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await readFile(values.config, "utf8"));
+    } catch (error) {
+      throw new UsageError(
+        `Could not read config ${values.config}: ${(error as Error).message}`,
+      );
+    }
+    const validated = validateAnalysisConfigInput(raw);
+    if (!validated.ok) {
+      throw new UsageError(
+        `Invalid config ${values.config}:\n  ${validated.errors.join("\n  ")}`,
+      );
+    }
+    baseConfig = validated.config;
+  }
+
+  const config = buildConfig(
+    baseConfig,
+    (values.detector ?? []).flatMap((entry) =>
+      entry
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean),
+    ),
+  );
+  const files = await collectFiles(positionals);
+  if (files.length === 0) {
+    throw new UsageError("No .csv or .json files found in the given paths.");
+  }
+
+  const reports: FileReport[] = [];
+  let failures = 0;
+
+  for (const file of files) {
+    try {
+      const report = analyzeFile(
+        file,
+        await readBars(file),
+        config,
+        minConfidence,
+      );
+      reports.push(report);
+      if (format === "ndjson") {
+        process.stdout.write(`${JSON.stringify(report)}\n`);
+      } else if (format === "table") {
+        process.stdout.write(`${renderTable(report)}\n`);
+      }
+    } catch (error) {
+      failures += 1;
+      process.stderr.write(
+        `${file}: ${error instanceof Error ? error.message : String(error)}\n`,
+      );
+    }
+  }
+
+  if (format === "json") {
+    process.stdout.write(`${JSON.stringify(reports, null, 2)}\n`);
+  }
+
+  return failures > 0 ? EXIT_MALFORMED_INPUT : 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    const usage =
+      error instanceof UsageError ||
+      (error as { code?: string }).code?.startsWith("ERR_PARSE_ARGS");
+    process.stderr.write(
+      `${error instanceof Error ? error.message : String(error)}\n`,
+    );
+    if (usage) process.stderr.write(`\n${USAGE}\n`);
+    process.exitCode = usage ? EXIT_USAGE : EXIT_MALFORMED_INPUT;
+  },
+);
@@ -0,0 +1,28 @@
+// Minimal local stand-in for an alert webhook: prints every POSTed payload.
+//
+//   node scripts/webhook-receiver.mjs [port]
+//
+// Then set the dashboard's webhook URL to http://localhost:<port>/alerts and
+// press "Send test".
+import { createServer } from "node:http";
+
+const port = Number(process.argv[2] ?? process.env.PORT ?? 4010);
+
+createServer((request, response) => {
+  let body = "";
+  request.on("data", (chunk) => {
+    body += chunk;
+  });
+  request.on("end", () => {
+    const at = new Date().toISOString();
+    console.log(`[${at}] ${request.method} ${request.url}`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+    response.writeHead(request.method === "POST" ? 204 : 405).end();
+  });
+}).listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}`);
+});
@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+
+const DELIVERY_TIMEOUT_MS = 5_000;
+// The relay posts wherever it is told, so it only talks to hosts the operator
+// has listed. The default covers `scripts/webhook-receiver.mjs`.
+const DEFAULT_ALLOWED_HOSTS = "localhost,127.0.0.1,[::1]";
+
+function allowedHosts() {
+  return new Set(
+    (process.env.ALERT_WEBHOOK_HOSTS ?? DEFAULT_ALLOWED_HOSTS)
+      .split(",")
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean),
+  );
+}
+
+function parseWebhookUrl(raw: unknown) {
+  if (typeof raw !== "string") return null;
+  try {
+    const url = new URL(raw);
+    return url.protocol === "http:" || url.protocol === "https:" ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+// Relays an alert to the user's webhook from the server, which sidesteps the
+// CORS rules that would block most receivers when posting from the browser.
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as {
+    url?: unknown;
+    alert?: unknown;
+  } | null;
+  const url = parseWebhookUrl(body?.url);
+
+  if (!url) {
+    return NextResponse.json(
+      { error: "`url` must be an absolute http(s) URL." },
+      { status: 400 },
+    );
+  }
+
+  if (!allowedHosts().has(url.hostname)) {
+    return NextResponse.json(
+      {
+        error: `${url.hostname} is not an allowed webhook host; add it to ALERT_WEBHOOK_HOSTS.`,
+      },
+      { status: 403 },
+    );
+  }
+
+  if (!body?.alert || typeof body.alert !== "object") {
+    return NextResponse.json(
+      { error: "`alert` must be an object." },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ type: "nifty-agent.alert", alert: body.alert }),
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      // A redirect could point anywhere, including hosts off the list.
+      redirect: "error",
+    });
+
+    if (!response.ok) {
+      return NextResponse.json(
+        { error: `Webhook responded with ${response.status}.` },
+        { status: 502 },
+      );
+    }
+
+    return NextResponse.json({ delivered: true, status: response.status });
+  } catch (error) {
+    // The cause can name internal addresses; it stays in the server log.
+    console.error(error);
+    return NextResponse.json(
+      { error: "Webhook could not be reached." },
+      { status: 502 },
+    );
+  }
+}
@@ -0,0 +1,153 @@
+import { NextResponse } from "next/server";
+import { validateAnalysisConfigInput } from "@/lib/analysisConfig";
+import { validatePoints } from "@/lib/bars";
+import {
+  MarketDataError,
+  fetchWindow,
+  fetchWithCache,
+  getMarketDataProvider,
+  parseIntradayQuery,
+  retryHeaders,
+  toMarketDataError,
+} from "@/lib/marketData";
+import { parseBarsCsv } from "@/lib/marketData/file";
+import { analyzeIntradayData } from "@/lib/patternDetection";
+import { MAX_BARS, MAX_BODY_BYTES, readBody } from "@/lib/requestBody";
+
+function badRequest(error: string, details?: string[], status = 400) {
+  const body = new MarketDataError(
+    error,
+    status === 422 ? "malformed_data" : "invalid_request",
+    { status },
+  ).toJSON();
+  return NextResponse.json(details ? { ...body, details } : body, {
+    status,
+  });
+}
+
+// `?config=` carries the analysis config as JSON for GET requests and CSV
+// uploads, which have nowhere else to put it.
+function parseConfigParam(searchParams: URLSearchParams) {
+  const raw = searchParams.get("config");
+  if (raw === null) return validateAnalysisConfigInput(undefined);
+
+  try {
+    return validateAnalysisConfigInput(JSON.parse(raw));
+  } catch {
+    return { ok: false as const, errors: ["config must be valid JSON."] };
+  }
+}
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const query = parseIntradayQuery(searchParams);
+
+  if (!query.ok) return badRequest(query.error);
+
+  const config = parseConfigParam(searchParams);
+  if (!config.ok) return badRequest("Invalid analysis config.", config.errors);
+
+  try {
+    const provider = getMarketDataProvider();
+    const { window } = query.request;
+    const { result, upstreamError } = window
+      ? await fetchWindow(provider, { ...query.request, window })
+      : await fetchWithCache(provider, query.request);
+
+    return NextResponse.json({
+      summary: analyzeIntradayData(result.points, config.config),
+      metadata: {
+        symbol: query.request.instrument.symbol,
+        range: query.request.window ? null : query.request.range,
+        ...(query.request.window ?? {}),
+        interval: query.request.interval,
+        length: result.points.length,
+        source: result.metadata.source,
+        quality: result.metadata.quality,
+        stale: upstreamError !== undefined,
+      },
+    });
+  } catch (error) {
+    const failure = toMarketDataError(
+      error,
+      "Unexpected error while running analysis.",
+    );
+    return NextResponse.json(failure.toJSON(), {
+      status: failure.status,
+      headers: retryHeaders(failure),
+    });
+  }
+}
+
+// Accepts either JSON (`[bars]` or `{ points, config }`) or a CSV body with
+// a `timestamp,open,high,low,close,volume` header.
+export async function POST(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const contentType = request.headers.get("content-type") ?? "";
+  const text = await readBody(request, MAX_BODY_BYTES);
+  if (text === null) {
+    return badRequest(
+      `Request bodies are limited to ${MAX_BODY_BYTES / 1024 / 1024} MB.`,
+      undefined,
+      413,
+    );
+  }
+
+  let rawPoints: unknown;
+  let rawConfig: unknown;
+
+  if (contentType.includes("csv") || contentType.startsWith("text/plain")) {
+    try {
+      rawPoints = parseBarsCsv(text);
+    } catch (error) {
+      return badRequest(
+        error instanceof Error ? error.message : "Unreadable CSV body.",
+        undefined,
+        error instanceof MarketDataError ? error.status : 400,
+      );
+    }
+    const config = parseConfigParam(searchParams);
+    if (!config.ok) {
+      return badRequest("Invalid analysis config.", config.errors);
+    }
+    rawConfig = config.config;
+  } else {
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return badRequest(
+        "Body must be JSON (`[bars]` or `{ points, config }`) or CSV with a text/csv content type.",
+      );
+    }
+
+    if (Array.isArray(body)) {
+      rawPoints = body;
+    } else if (body && typeof body === "object") {
+      rawPoints = (body as { points?: unknown }).points;
+      rawConfig = (body as { config?: unknown }).config;
+    }
+  }
+
+  if (Array.isArray(rawPoints) && rawPoints.length > MAX_BARS) {
+    return badRequest(
+      `At most ${MAX_BARS} bars can be analyzed per request.`,
+      undefined,
+      413,
+    );
+  }
+
+  const points = validatePoints(rawPoints);
+  if (!points.ok) return badRequest("Invalid bars.", points.errors, 422);
+  if (points.points.length === 0) {
+    return badRequest("At least one bar is required.", undefined, 422);
+  }
+
+  const config = validateAnalysisConfigInput(rawConfig);
+  if (!config.ok) return badRequest("Invalid analysis config.", config.errors);
+
+  return NextResponse.json({
+    summary: analyzeIntradayData(points.points, config.config),
+    metadata: { length: points.points.length },
+  });
+}
@@ -0,0 +1,145 @@
+import { NextResponse } from "next/server";
+import { DEFAULT_HORIZONS, runBacktest } from "@/lib/backtest";
+import { validatePoints } from "@/lib/bars";
+import {
+  MarketDataError,
+  fetchWindow,
+  fetchWithCache,
+  getMarketDataProvider,
+  parseIntradayQuery,
+  retryHeaders,
+  toMarketDataError,
+} from "@/lib/marketData";
+import { MAX_BARS, MAX_BODY_BYTES, readBody } from "@/lib/requestBody";
+
+const MAX_HORIZON = 500;
+
+function parseHorizons(raw: unknown): number[] | null {
+  if (raw === undefined || raw === null || raw === "") return DEFAULT_HORIZONS;
+
+  const values = Array.isArray(raw) ? raw : String(raw).split(",");
+  const horizons = values.map((value) => Number(value));
+
+  if (
+    horizons.length === 0 ||
+    horizons.some(
+      (value) => !Number.isInteger(value) || value < 1 || value > MAX_HORIZON,
+    )
+  ) {
+    return null;
+  }
+
+  return Array.from(new Set(horizons)).sort((a, b) => a - b);
+}
+
+function invalid(message: string, details?: string[], status = 400) {
+  const body = new MarketDataError(
+    message,
+    status === 422 ? "malformed_data" : "invalid_request",
+    { status },
+  ).toJSON();
+  return NextResponse.json(details ? { ...body, details } : body, {
+    status,
+  });
+}
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const query = parseIntradayQuery(searchParams);
+  const horizons = parseHorizons(searchParams.get("horizons"));
+
+  if (!query.ok) {
+    return invalid(query.error);
+  }
+
+  if (!horizons) {
+    return invalid(`Horizons must be integers between 1 and ${MAX_HORIZON}.`);
+  }
+
+  try {
+    const provider = getMarketDataProvider();
+    const { window } = query.request;
+    const { result, upstreamError } = window
+      ? await fetchWindow(provider, { ...query.request, window })
+      : await fetchWithCache(provider, query.request);
+
+    return NextResponse.json({
+      report: runBacktest(result.points, {
+        horizons,
+        withinSession: searchParams.get("withinSession") !== "false",
+      }),
+      metadata: {
+        symbol: query.request.instrument.symbol,
+        range: query.request.window ? null : query.request.range,
+        ...(query.request.window ?? {}),
+        interval: query.request.interval,
+        source: result.metadata.source,
+        quality: result.metadata.quality,
+        stale: upstreamError !== undefined,
+      },
+    });
+  } catch (error) {
+    const failure = toMarketDataError(
+      error,
+      "Unexpected error while running backtest.",
+    );
+    return NextResponse.json(failure.toJSON(), {
+      status: failure.status,
+      headers: retryHeaders(failure),
+    });
+  }
+}
+
+export async function POST(request: Request) {
+  const text = await readBody(request, MAX_BODY_BYTES);
+  if (text === null) {
+    return invalid(
+      `Request bodies are limited to ${MAX_BODY_BYTES / 1024 / 1024} MB.`,
+      undefined,
+      413,
+    );
+  }
+
+  let body: {
+    points?: unknown;
+    horizons?: unknown;
+    withinSession?: unknown;
+  } | null;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    body = null;
+  }
+
+  if (!body || typeof body !== "object" || !Array.isArray(body.points)) {
+    return invalid(
+      "Body must be JSON with a `points` array of { timestamp, open, high, low, close, volume } bars.",
+    );
+  }
+
+  if (body.points.length > MAX_BARS) {
+    return invalid(
+      `At most ${MAX_BARS} bars can be backtested per request.`,
+      undefined,
+      413,
+    );
+  }
+
+  const points = validatePoints(body.points);
+  if (!points.ok) return invalid("Invalid bars.", points.errors, 422);
+  if (points.points.length === 0) {
+    return invalid("At least one bar is required.", undefined, 422);
+  }
+
+  const horizons = parseHorizons(body.horizons);
+  if (!horizons) {
+    return invalid(`Horizons must be integers between 1 and ${MAX_HORIZON}.`);
+  }
+
+  return NextResponse.json({
+    report: runBacktest(points.points, {
+      horizons,
+      withinSession: body.withinSession !== false,
+    }),
+  });
+}
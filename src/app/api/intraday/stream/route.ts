@@ -0,0 +1,146 @@
+import { NextResponse } from "next/server";
+import {
+  MarketDataError,
+  fetchWithCache,
+  getMarketDataProvider,
+  parseIntradayQuery,
+  toMarketDataError,
+  ttlFor,
+} from "@/lib/marketData";
+import type { IntradayPoint } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+const MIN_POLL_SECONDS = 5;
+const HEARTBEAT_SECONDS = 20;
+const CLIENT_RETRY_MS = 5_000;
+
+function encodeEvent(event: string, data: unknown) {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function barSignature(point: IntradayPoint) {
+  return `${point.open}|${point.high}|${point.low}|${point.close}|${point.volume}`;
+}
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const query = parseIntradayQuery(searchParams);
+
+  if (!query.ok) {
+    return NextResponse.json(
+      new MarketDataError(query.error, "invalid_request").toJSON(),
+      { status: 400 },
+    );
+  }
+
+  const provider = getMarketDataProvider();
+  const encoder = new TextEncoder();
+  const sent = new Map<number, string>();
+  let pollTimer: ReturnType<typeof setTimeout> | undefined;
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+  let closed = false;
+  let failing = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const push = (chunk: string) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(chunk));
+      };
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearTimeout(pollTimer);
+        clearInterval(heartbeatTimer);
+        controller.close();
+      };
+
+      const poll = async () => {
+        try {
+          const { result, upstreamError } = await fetchWithCache(
+            provider,
+            query.request,
+          );
+          const changed = result.points.filter(
+            (point) => sent.get(point.timestamp) !== barSignature(point),
+          );
+
+          const isSnapshot = sent.size === 0;
+          changed.forEach((point) =>
+            sent.set(point.timestamp, barSignature(point)),
+          );
+
+          if (isSnapshot) {
+            push(
+              encodeEvent("snapshot", {
+                points: result.points,
+                quality: result.metadata.quality,
+              }),
+            );
+          } else if (changed.length > 0) {
+            push(
+              encodeEvent("bars", {
+                points: changed,
+                quality: result.metadata.quality,
+              }),
+            );
+          }
+
+          if (upstreamError) {
+            failing = true;
+            push(
+              encodeEvent("upstream-error", {
+                ...new MarketDataError(
+                  upstreamError.message,
+                  upstreamError.code,
+                ).toJSON(),
+                stale: true,
+              }),
+            );
+          } else if (failing) {
+            failing = false;
+            push(encodeEvent("recovered", {}));
+          }
+        } catch (error) {
+          failing = true;
+          push(
+            encodeEvent("upstream-error", {
+              ...toMarketDataError(error).toJSON(),
+              stale: false,
+            }),
+          );
+        }
+
+        if (closed) return;
+        const pollSeconds = Math.max(
+          MIN_POLL_SECONDS,
+          ttlFor(query.request, new Date(), provider.alwaysOpen),
+        );
+        pollTimer = setTimeout(poll, pollSeconds * 1000);
+      };
+
+      push(`retry: ${CLIENT_RETRY_MS}\n\n`);
+      heartbeatTimer = setInterval(
+        () => push(`: heartbeat ${Date.now()}\n\n`),
+        HEARTBEAT_SECONDS * 1000,
+      );
+      request.signal.addEventListener("abort", close);
+      poll();
+    },
+    cancel() {
+      closed = true;
+      clearTimeout(pollTimer);
+      clearInterval(heartbeatTimer);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -1,9 +1,61 @@
 "use client";
 
 import dynamic from "next/dynamic";
-import { useEffect, useMemo, useState } from "react";
-import { analyzeIntradayData } from "@/lib/patternDetection";
-import type { AnalysisSummary, IntradayPoint } from "@/lib/types";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  type StreamStatus,
+  type UpstreamIssue,
+  useIntradayStream,
+} from "@/hooks/useIntradayStream";
+import { AlertsPanel } from "@/components/AlertsPanel";
+import type { PriceStyle } from "@/components/chartPlugins";
+import { DetectorScorecard } from "@/components/DetectorScorecard";
+import { PaperTradingPanel } from "@/components/PaperTradingPanel";
+import { SettingsDrawer } from "@/components/SettingsDrawer";
+import { useAlertEvaluation, useAlerts } from "@/hooks/useAlerts";
+import { useAnalysisSettings } from "@/hooks/useAnalysisSettings";
+import { useHigherTimeframes } from "@/hooks/useHigherTimeframes";
+import { scoreEvents } from "@/lib/backtest";
+import { mergePoints } from "@/lib/bars";
+import { type DataQualityReport, describeQuality } from "@/lib/dataQuality";
+import { DEFAULT_SYMBOL, INSTRUMENTS, getInstrument } from "@/lib/instruments";
+import { useIndicatorSelection } from "@/hooks/useIndicatorSelection";
+import { useMarketStatus } from "@/hooks/useMarketStatus";
+import {
+  usePaperTrading,
+  usePaperTradingEvaluation,
+} from "@/hooks/usePaperTrading";
+import { useReplay } from "@/hooks/useReplay";
+import { useTimeframeSelection } from "@/hooks/useTimeframeSelection";
+import { applyConfluence } from "@/lib/confluence";
+import {
+  INDICATORS,
+  computeAnchoredVwap,
+  computeIndicators,
+} from "@/lib/indicators";
+import type { MarketPhase } from "@/lib/marketCalendar";
+import {
+  ERROR_GUIDANCE,
+  MarketDataError,
+  type MarketDataErrorCode,
+  autoRetryDelay,
+  isMarketDataErrorCode,
+} from "@/lib/marketData/errors";
+import { intervalSeconds } from "@/lib/marketData/params";
+import { createAnalysisEngine } from "@/lib/patternDetection";
+import { tradeMarkers } from "@/lib/paperTrading";
+import { REPLAY_SPEEDS, causalSummary, signalsFromEvents } from "@/lib/replay";
+import {
+  formatIstDateTime,
+  formatIstTime,
+  istDateLabel,
+  splitSessions,
+} from "@/lib/sessions";
+import type {
+  AnalysisSummary,
+  IntradayPoint,
+  TimeframeBias,
+} from "@/lib/types";
 
 const IntradayChart = dynamic(
   () => import("@/components/IntradayChart").then((mod) => mod.IntradayChart),
@@ -31,7 +83,9 @@ const intervals = [
   { label: "60m", value: "60m" },
 ];
 
-function confidenceBadgeStyles(confidence: AnalysisSummary["insights"][number]["confidence"]) {
+function confidenceBadgeStyles(
+  confidence: AnalysisSummary["insights"][number]["confidence"],
+) {
   switch (confidence) {
     case "high":
       return "bg-emerald-500/20 text-emerald-200";
@@ -42,6 +96,43 @@ function confidenceBadgeStyles(confidence: AnalysisSummary["insights"][number]["
   }
 }
 
+const priceStyles: Array<{ label: string; value: PriceStyle }> = [
+  { label: "Candles", value: "candles" },
+  { label: "OHLC", value: "ohlc" },
+  { label: "Line", value: "line" },
+  { label: "Heikin-Ashi", value: "heikin-ashi" },
+];
+
+const marketPhaseStyles: Record<MarketPhase, string> = {
+  "pre-open": "border-amber-400/40 bg-amber-500/10 text-amber-200",
+  open: "border-emerald-400/40 bg-emerald-500/10 text-emerald-200",
+  "post-close": "border-sky-400/40 bg-sky-500/10 text-sky-200",
+  closed: "border-white/10 bg-slate-900/70 text-slate-400",
+  holiday: "border-violet-400/40 bg-violet-500/10 text-violet-200",
+  weekend: "border-white/10 bg-slate-900/70 text-slate-400",
+};
+
+const biasStyles: Record<TimeframeBias, { label: string; className: string }> =
+  {
+    bullish: { label: "▲ Up", className: "text-emerald-300" },
+    bearish: { label: "▼ Down", className: "text-rose-300" },
+    neutral: { label: "■ Flat", className: "text-slate-400" },
+  };
+
+function confluenceChipStyles(score: number) {
+  if (score >= 0.5) return "bg-emerald-500/10 text-emerald-200";
+  if (score <= -0.25) return "bg-rose-500/10 text-rose-200";
+  return "bg-slate-800 text-slate-300";
+}
+
+const streamStatusStyles: Record<StreamStatus, { label: string; dot: string }> =
+  {
+    idle: { label: "Offline", dot: "bg-slate-500" },
+    connecting: { label: "Connecting", dot: "bg-amber-400 animate-pulse" },
+    live: { label: "Live", dot: "bg-emerald-400" },
+    reconnecting: { label: "Reconnecting", dot: "bg-rose-400 animate-pulse" },
+  };
+
 function formatNumber(value: number, digits = 2) {
   if (Number.isNaN(value)) return "0.00";
   return new Intl.NumberFormat("en-IN", {
@@ -57,14 +148,51 @@ function formatVolume(value: number) {
   return formatNumber(value, 0);
 }
 
+interface FeedError {
+  code: MarketDataErrorCode;
+  message: string;
+  retryAfterSeconds?: number;
+}
+
+interface StaleFeed {
+  code: MarketDataErrorCode;
+  message: string;
+  fetchedAt: number | null;
+}
+
 export default function Home() {
+  const [symbol, setSymbol] = useState(DEFAULT_SYMBOL);
   const [range, setRange] = useState(ranges[1]?.value ?? "5d");
   const [interval, setInterval] = useState(intervals[1]?.value ?? "5m");
   const [points, setPoints] = useState<IntradayPoint[]>([]);
+  const [feedKey, setFeedKey] = useState<string | null>(null);
+  const [quality, setQuality] = useState<DataQualityReport | null>(null);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<FeedError | null>(null);
+  const [autoRetries, setAutoRetries] = useState(0);
+  const [staleFeed, setStaleFeed] = useState<StaleFeed | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [reloadTick, setReloadTick] = useState(0);
+  const [priceStyle, setPriceStyle] = useState<PriceStyle>("candles");
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [anchorMode, setAnchorMode] = useState(false);
+  const [anchorTimestamps, setAnchorTimestamps] = useState<number[]>([]);
+  const [selectedInsightId, setSelectedInsightId] = useState<string | null>(
+    null,
+  );
+  const [hoveredInsightId, setHoveredInsightId] = useState<string | null>(null);
+  const settings = useAnalysisSettings();
+  const indicatorSelection = useIndicatorSelection();
+  const marketStatus = useMarketStatus();
+  const timeframeSelection = useTimeframeSelection();
+  const alerts = useAlerts();
+  const paper = usePaperTrading();
+  const engine = useMemo(
+    () => createAnalysisEngine(settings.config),
+    [settings.config],
+  );
+
+  const instrument = getInstrument(symbol) ?? INSTRUMENTS[0];
 
   useEffect(() => {
     const controller = new AbortController();
@@ -75,7 +203,9 @@ export default function Home() {
 
       try {
         const response = await fetch(
-          `/api/intraday?range=${range}&interval=${interval}`,
+          `/api/intraday?symbol=${encodeURIComponent(
+            symbol,
+          )}&range=${range}&interval=${interval}`,
           {
             signal: controller.signal,
           },
@@ -83,21 +213,63 @@ export default function Home() {
 
         if (!response.ok) {
           const detail = await response.json().catch(() => ({}));
-          throw new Error(detail.error ?? "Unable to load intraday feed.");
+          throw new MarketDataError(
+            detail.error ?? "Unable to load intraday feed.",
+            isMarketDataErrorCode(detail.code) ? detail.code : "internal",
+            {
+              status: response.status,
+              retryAfterSeconds: detail.retryAfterSeconds,
+            },
+          );
         }
 
         const payload = (await response.json()) as {
           points: IntradayPoint[];
+          metadata?: {
+            quality?: DataQualityReport;
+            fetchedAt?: number;
+            upstreamError?: { code: MarketDataErrorCode; message: string };
+          };
         };
 
         if (!controller.signal.aborted) {
+          const upstreamError = payload.metadata?.upstreamError;
           setPoints(payload.points ?? []);
+          setQuality(payload.metadata?.quality ?? null);
+          setStaleFeed(
+            upstreamError
+              ? {
+                  ...upstreamError,
+                  fetchedAt: payload.metadata?.fetchedAt ?? null,
+                }
+              : null,
+          );
+          setFeedKey(`${symbol}|${interval}`);
           setLastUpdated(new Date());
+          setAutoRetries(0);
         }
       } catch (err) {
         if (controller.signal.aborted) return;
-        setError(err instanceof Error ? err.message : "Unknown error.");
+        setError(
+          err instanceof MarketDataError
+            ? {
+                code: err.code,
+                message: err.message,
+                retryAfterSeconds: err.retryAfterSeconds,
+              }
+            : // fetch itself failed: our own server is unreachable.
+              {
+                code: "upstream_unavailable",
+                message:
+                  err instanceof Error
+                    ? err.message
+                    : "Unable to load intraday feed.",
+              },
+        );
         setPoints([]);
+        setFeedKey(null);
+        setQuality(null);
+        setStaleFeed(null);
       } finally {
         if (!controller.signal.aborted) {
           setLoading(false);
@@ -108,12 +280,246 @@ export default function Home() {
     fetchIntraday();
 
     return () => controller.abort();
-  }, [interval, range, reloadTick]);
+  }, [interval, range, reloadTick, symbol]);
+
+  const retryIn = error
+    ? autoRetryDelay(error.code, autoRetries, error.retryAfterSeconds)
+    : null;
 
-  const analysis = useMemo<AnalysisSummary>(
-    () => analyzeIntradayData(points),
-    [points],
+  useEffect(() => {
+    if (retryIn === null) return;
+    const timer = setTimeout(() => {
+      setAutoRetries((count) => count + 1);
+      setReloadTick((tick) => tick + 1);
+    }, retryIn * 1000);
+    return () => clearTimeout(timer);
+  }, [retryIn, error]);
+
+  const handleStreamBars = useCallback(
+    (bars: IntradayPoint[], report?: DataQualityReport) => {
+      setPoints((current) => mergePoints(current, bars));
+      if (report) setQuality(report);
+      setLastUpdated(new Date());
+    },
+    [],
+  );
+
+  const handleUpstreamIssue = useCallback((issue: UpstreamIssue | null) => {
+    setStaleFeed((current) =>
+      issue
+        ? {
+            code: issue.code,
+            message: issue.error,
+            fetchedAt: current?.fetchedAt ?? null,
+          }
+        : null,
+    );
+  }, []);
+
+  const streamStatus = useIntradayStream({
+    symbol,
+    range,
+    interval,
+    enabled: !loading && !error,
+    onBars: handleStreamBars,
+    onUpstreamIssue: handleUpstreamIssue,
+  });
+
+  const replay = useReplay(points.length, feedKey);
+  // Everything below is computed from the bars revealed so far, so a replay
+  // never sees the rest of the session.
+  const visiblePoints = useMemo(
+    () =>
+      replay.cursor === null ? points : points.slice(0, replay.cursor + 1),
+    [points, replay.cursor],
+  );
+  const sessionBounds = useMemo(() => splitSessions(points), [points]);
+  const replayCursor = replay.cursor ?? -1;
+  const replaySession = replay.active
+    ? sessionBounds.findIndex((session) => replayCursor <= session.endIndex)
+    : -1;
+
+  const higherIntervals = useMemo(
+    () =>
+      intervals
+        .map(({ value }) => value)
+        .filter(
+          (value) =>
+            intervalSeconds(value) > intervalSeconds(interval) &&
+            timeframeSelection.selected.includes(value),
+        ),
+    [interval, timeframeSelection.selected],
+  );
+  // EMA-cross alerts may watch a timeframe the alignment matrix does not show.
+  const fetchedIntervals = useMemo(
+    () =>
+      intervals
+        .map(({ value }) => value)
+        .filter(
+          (value) =>
+            intervalSeconds(value) > intervalSeconds(interval) &&
+            (higherIntervals.includes(value) ||
+              alerts.rules.some(
+                (rule) =>
+                  rule.enabled &&
+                  rule.kind === "ema-cross" &&
+                  rule.interval === value,
+              )),
+        ),
+    [alerts.rules, higherIntervals, interval],
   );
+  const higherTimeframes = useHigherTimeframes({
+    symbol,
+    range,
+    intervals: fetchedIntervals,
+    reloadTick,
+  });
+
+  const analysis = useMemo<AnalysisSummary>(() => {
+    engine.sync(visiblePoints);
+    const summary = replay.active
+      ? causalSummary(
+          engine.summary(),
+          engine.events(),
+          engine.config.maxInsights,
+        )
+      : engine.summary();
+    return applyConfluence(summary, visiblePoints, {
+      interval,
+      timeframes: higherTimeframes.series.filter((series) =>
+        higherIntervals.includes(series.interval),
+      ),
+      config: settings.config,
+    });
+  }, [
+    engine,
+    higherIntervals,
+    higherTimeframes.series,
+    interval,
+    replay.active,
+    settings.config,
+    visiblePoints,
+  ]);
+
+  const selectedInsight = analysis.insights.find(
+    (insight) => insight.id === selectedInsightId,
+  );
+  const highlight = useMemo(() => {
+    if (selectedInsight?.startIndex === undefined) return null;
+    const start = visiblePoints[selectedInsight.startIndex];
+    const end =
+      visiblePoints[selectedInsight.endIndex ?? selectedInsight.startIndex];
+    if (!start || !end) return null;
+    return {
+      start: start.timestamp,
+      end: end.timestamp,
+      label: selectedInsight.title,
+    };
+  }, [selectedInsight, visiblePoints]);
+
+  const alertContext = useMemo(
+    () =>
+      // Replayed bars are history; alerts only watch the live series.
+      feedKey === `${symbol}|${interval}` && !loading && !replay.active
+        ? {
+            symbol,
+            interval,
+            points,
+            analysis,
+            timeframes: higherTimeframes.series,
+          }
+        : null,
+    [
+      analysis,
+      feedKey,
+      higherTimeframes.series,
+      interval,
+      loading,
+      points,
+      replay.active,
+      symbol,
+    ],
+  );
+  useAlertEvaluation(alertContext, alerts.rules);
+
+  const manualAnchors = useMemo(
+    () =>
+      anchorTimestamps.flatMap((timestamp) => {
+        const anchorIndex = visiblePoints.findIndex(
+          (point) => point.timestamp === timestamp,
+        );
+        if (anchorIndex < 0) return [];
+
+        return [
+          {
+            id: `manual-${timestamp}`,
+            label: `AVWAP · ${formatIstTime(timestamp)}`,
+            anchorIndex,
+            anchorTimestamp: timestamp,
+            values: computeAnchoredVwap(visiblePoints, anchorIndex),
+          },
+        ];
+      }),
+    [anchorTimestamps, visiblePoints],
+  );
+
+  const indicators = useMemo(
+    () => computeIndicators(visiblePoints, indicatorSelection.selected),
+    [indicatorSelection.selected, visiblePoints],
+  );
+  const oscillatorPanes = indicators.filter(
+    (plot) => plot.pane === "oscillator",
+  ).length;
+
+  const handleBarClick = useCallback(
+    (index: number) => {
+      const timestamp = visiblePoints[index]?.timestamp;
+      if (timestamp === undefined) return;
+
+      setAnchorTimestamps((current) =>
+        current.includes(timestamp) ? current : [...current, timestamp],
+      );
+      setAnchorMode(false);
+    },
+    [visiblePoints],
+  );
+
+  const detectorEvents = useMemo(() => {
+    engine.sync(visiblePoints);
+    return engine.events();
+  }, [engine, visiblePoints]);
+  const scorecard = useMemo(
+    () => scoreEvents(visiblePoints, detectorEvents),
+    [detectorEvents, visiblePoints],
+  );
+
+  // The live series only: paper trades act on causal events, never on
+  // summaries that may have been picked in hindsight.
+  const liveFeed =
+    feedKey === `${symbol}|${interval}` && !loading && !replay.active;
+  const paperContext = useMemo(
+    () =>
+      liveFeed
+        ? {
+            instrument,
+            interval,
+            points,
+            signals: signalsFromEvents(detectorEvents),
+          }
+        : null,
+    [detectorEvents, instrument, interval, liveFeed, points],
+  );
+  usePaperTradingEvaluation(paperContext);
+  const lastLiveBar = liveFeed ? (points[points.length - 1] ?? null) : null;
+
+  const tradeMarkerList = useMemo(() => {
+    const first = visiblePoints[0]?.timestamp;
+    const last = visiblePoints[visiblePoints.length - 1]?.timestamp;
+    if (first === undefined || last === undefined) return [];
+    return tradeMarkers(paper.account, instrument.symbol).filter(
+      (marker) => marker.timestamp >= first && marker.timestamp <= last,
+    );
+  }, [instrument.symbol, paper.account, visiblePoints]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950 text-slate-100">
@@ -121,7 +527,7 @@ export default function Home() {
         <header className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
           <div>
             <p className="text-xs uppercase tracking-[0.4em] text-slate-400">
-              Nifty 50 · Live Tape Intelligence
+              {instrument.name} · Live Tape Intelligence
             </p>
             <h1 className="mt-3 text-3xl font-semibold leading-tight text-white sm:text-4xl">
               AI Trading Agent for Intraday Pattern Discovery
@@ -129,16 +535,67 @@ export default function Home() {
             <p className="mt-2 max-w-2xl text-sm text-slate-300">
               Blends quantitative pattern detection with adaptive context to
               surface high-conviction zones before they expand. Tuned for
-              scalpers and momentum traders tracking the Nifty 50.
+              scalpers and momentum traders tracking the {instrument.name}.
             </p>
           </div>
-          <div className="text-xs text-slate-400">
+          <div className="flex items-center gap-3 text-xs text-slate-400">
+            <span className="flex items-center gap-1.5 rounded-full border border-white/10 bg-slate-900/70 px-2.5 py-1 text-slate-300">
+              <span
+                className={`h-2 w-2 rounded-full ${streamStatusStyles[streamStatus].dot}`}
+              />
+              {streamStatusStyles[streamStatus].label}
+            </span>
+            {marketStatus && (
+              <span
+                className={`rounded-full border px-2.5 py-1 ${marketPhaseStyles[marketStatus.phase]}`}
+                title={
+                  marketStatus.nextOpen
+                    ? `Next pre-open ${formatIstDateTime(marketStatus.nextOpen)}`
+                    : undefined
+                }
+              >
+                NSE {marketStatus.label}
+                {marketStatus.phase !== "open" && marketStatus.nextOpen
+                  ? ` · opens ${istDateLabel(marketStatus.nextOpen).slice(
+                      5,
+                    )} ${formatIstTime(marketStatus.nextOpen)}`
+                  : ""}
+              </span>
+            )}
+            {quality && quality.repaired > 0 && (
+              <span
+                className="rounded-full border border-amber-400/40 bg-amber-500/10 px-2.5 py-1 text-amber-200"
+                title={describeQuality(quality)}
+              >
+                ⚠ Data repaired · {quality.repaired} fix
+                {quality.repaired === 1 ? "" : "es"}
+              </span>
+            )}
+            {staleFeed && (
+              <span
+                className="rounded-full border border-orange-400/40 bg-orange-500/10 px-2.5 py-1 text-orange-200"
+                title={`${ERROR_GUIDANCE[staleFeed.code].message} ${staleFeed.message}`}
+              >
+                ⏸ Stale data
+                {staleFeed.fetchedAt
+                  ? ` · as of ${formatIstTime(
+                      Math.floor(staleFeed.fetchedAt / 1000),
+                    )}`
+                  : ""}
+              </span>
+            )}
             {lastUpdated
-              ? `Last sync ▸ ${lastUpdated.toLocaleString("en-IN", {
-                  hour12: false,
-                  timeZone: "Asia/Kolkata",
-                })}`
+              ? `Last sync ▸ ${formatIstDateTime(
+                  Math.floor(lastUpdated.getTime() / 1000),
+                )}`
               : "Awaiting first sync…"}
+            <button
+              type="button"
+              onClick={() => setSettingsOpen(true)}
+              className="rounded-full border border-white/10 bg-slate-900/70 px-3 py-1 text-slate-200 hover:bg-white/10"
+            >
+              ⚙ Settings
+            </button>
           </div>
         </header>
 
@@ -150,10 +607,43 @@ export default function Home() {
                   <h2 className="text-lg font-semibold text-white">Tape Map</h2>
                   <p className="text-xs text-slate-300">
                     Range: {range.toUpperCase()} · Interval:{" "}
-                    {interval.toUpperCase()} · NSE Spot (^NSEI)
+                    {interval.toUpperCase()} · {instrument.exchange}{" "}
+                    {instrument.kind === "index" ? "Spot" : "Cash"} (
+                    {instrument.symbol})
                   </p>
                 </div>
                 <div className="flex flex-wrap gap-3">
+                  <select
+                    value={symbol}
+                    onChange={(event) => {
+                      setSymbol(event.target.value);
+                      setAnchorTimestamps([]);
+                    }}
+                    aria-label="Instrument"
+                    className="rounded-full border border-white/10 bg-slate-900/70 px-3 py-1 text-xs font-medium text-slate-200 focus:outline-none"
+                  >
+                    {INSTRUMENTS.map((entry) => (
+                      <option key={entry.symbol} value={entry.symbol}>
+                        {entry.shortName} · {entry.name}
+                      </option>
+                    ))}
+                  </select>
+                  <div className="flex gap-1 rounded-full border border-white/10 bg-slate-900/70 p-1">
+                    {priceStyles.map(({ label, value }) => (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => setPriceStyle(value)}
+                        className={`rounded-full px-3 py-1 text-xs font-medium transition ${
+                          priceStyle === value
+                            ? "bg-violet-500 text-white shadow-lg shadow-violet-500/30"
+                            : "text-slate-300 hover:bg-white/10"
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
                   <div className="flex gap-1 rounded-full border border-white/10 bg-slate-900/70 p-1">
                     {ranges.map(({ label, value }) => (
                       <button
@@ -189,16 +679,157 @@ export default function Home() {
                 </div>
               </div>
 
-              <div className="mt-6 h-[420px]">
+              <div className="mt-4 flex flex-wrap items-center gap-2 text-xs">
+                <span className="uppercase tracking-[0.3em] text-slate-500">
+                  Studies
+                </span>
+                {INDICATORS.map((definition) => {
+                  const active = indicatorSelection.selected.includes(
+                    definition.id,
+                  );
+                  return (
+                    <button
+                      key={definition.id}
+                      type="button"
+                      onClick={() => indicatorSelection.toggle(definition.id)}
+                      className={`rounded-full border px-3 py-1 font-medium transition ${
+                        active
+                          ? "border-sky-400/60 bg-sky-500/20 text-sky-100"
+                          : "border-white/10 bg-slate-900/70 text-slate-300 hover:bg-white/10"
+                      }`}
+                    >
+                      {definition.label}
+                    </button>
+                  );
+                })}
+              </div>
+
+              <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+                <span className="uppercase tracking-[0.3em] text-slate-500">
+                  Replay
+                </span>
+                {replay.cursor === null ? (
+                  <button
+                    type="button"
+                    disabled={sessionBounds.length === 0}
+                    onClick={() =>
+                      replay.start(
+                        sessionBounds[sessionBounds.length - 1].startIndex,
+                      )
+                    }
+                    className="rounded-full border border-white/10 bg-slate-900/70 px-3 py-1 font-medium text-slate-300 transition hover:bg-white/10 disabled:opacity-40"
+                  >
+                    ▶ Replay a session
+                  </button>
+                ) : (
+                  <>
+                    <select
+                      value={replaySession}
+                      onChange={(event) =>
+                        replay.start(
+                          sessionBounds[Number(event.target.value)].startIndex,
+                        )
+                      }
+                      aria-label="Session to replay"
+                      className="rounded-full border border-white/10 bg-slate-900/70 px-3 py-1 font-medium text-slate-200 focus:outline-none"
+                    >
+                      {sessionBounds.map((session, idx) => (
+                        <option key={session.startIndex} value={idx}>
+                          {istDateLabel(points[session.startIndex].timestamp)}
+                        </option>
+                      ))}
+                    </select>
+                    <div className="flex gap-1 rounded-full border border-white/10 bg-slate-900/70 p-1">
+                      <button
+                        type="button"
+                        aria-label="Step back one bar"
+                        onClick={() => replay.step(-1)}
+                        className="rounded-full px-2 py-0.5 text-slate-300 hover:bg-white/10"
+                      >
+                        ⏮
+                      </button>
+                      <button
+                        type="button"
+                        aria-label={replay.playing ? "Pause" : "Play"}
+                        onClick={replay.togglePlaying}
+                        className="rounded-full bg-violet-500 px-3 py-0.5 font-semibold text-white shadow-lg shadow-violet-500/30"
+                      >
+                        {replay.playing ? "⏸" : "▶"}
+                      </button>
+                      <button
+                        type="button"
+                        aria-label="Step forward one bar"
+                        onClick={() => replay.step(1)}
+                        className="rounded-full px-2 py-0.5 text-slate-300 hover:bg-white/10"
+                      >
+                        ⏭
+                      </button>
+                    </div>
+                    <select
+                      value={replay.speed}
+                      onChange={(event) =>
+                        replay.setSpeed(Number(event.target.value))
+                      }
+                      aria-label="Replay speed"
+                      className="rounded-full border border-white/10 bg-slate-900/70 px-3 py-1 font-medium text-slate-200 focus:outline-none"
+                    >
+                      {REPLAY_SPEEDS.map((speed) => (
+                        <option key={speed} value={speed}>
+                          {speed} bar{speed === 1 ? "" : "s"}/s
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="range"
+                      min={0}
+                      max={points.length - 1}
+                      value={replay.cursor}
+                      onChange={(event) =>
+                        replay.seek(Number(event.target.value))
+                      }
+                      aria-label="Replay position"
+                      className="w-40 accent-violet-400"
+                    />
+                    <span className="text-slate-400">
+                      {formatIstTime(points[replay.cursor].timestamp)} IST · bar{" "}
+                      {replay.cursor + 1}/{points.length}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={replay.stop}
+                      className="rounded-full border border-white/10 bg-slate-900/70 px-3 py-1 font-medium text-slate-300 transition hover:bg-white/10"
+                    >
+                      Exit replay
+                    </button>
+                  </>
+                )}
+              </div>
+
+              <div
+                className="mt-6"
+                style={{ height: 420 + oscillatorPanes * 120 }}
+              >
                 {error ? (
                   <div className="flex h-full flex-col items-center justify-center gap-3 rounded-3xl border border-rose-400/30 bg-rose-500/10 text-sm text-rose-200">
-                    <p>⚠️ {error}</p>
+                    <p>⚠️ {ERROR_GUIDANCE[error.code].message}</p>
+                    <p className="text-xs text-rose-200/70">{error.message}</p>
+                    {retryIn !== null ? (
+                      <p className="text-xs text-rose-200/70">
+                        Retrying automatically in {retryIn}s…
+                      </p>
+                    ) : (
+                      ERROR_GUIDANCE[error.code].strategy === "none" && (
+                        <p className="text-xs text-rose-200/70">
+                          Try another instrument or interval.
+                        </p>
+                      )
+                    )}
                     <button
                       type="button"
                       onClick={() => setReloadTick((tick) => tick + 1)}
                       className="rounded-full bg-rose-500/40 px-3 py-1 text-xs font-semibold text-white hover:bg-rose-500/60"
                     >
-                      Retry
+                      {retryIn !== null ? "Retry now" : "Retry"}
                     </button>
                   </div>
                 ) : (
@@ -211,15 +842,85 @@ export default function Home() {
                       </div>
                     )}
                     <IntradayChart
-                      points={points}
-                      ema9={analysis.ema9}
-                      ema21={analysis.ema21}
+                      points={visiblePoints}
+                      emaFast={analysis.emaFast}
+                      emaSlow={analysis.emaSlow}
+                      emaLengths={{
+                        fast: engine.config.emaFast,
+                        slow: engine.config.emaSlow,
+                      }}
                       signals={analysis.signals}
+                      priceStyle={priceStyle}
+                      sessionStarts={analysis.sessions.map(
+                        (session) =>
+                          visiblePoints[session.startIndex]?.timestamp,
+                      )}
+                      vwap={analysis.vwap}
+                      anchoredVwaps={[
+                        ...analysis.anchoredVwaps,
+                        ...manualAnchors,
+                      ]}
+                      onBarClick={anchorMode ? handleBarClick : undefined}
+                      indicators={indicators}
+                      levels={analysis.levels}
+                      openingRanges={analysis.openingRanges}
+                      highlight={highlight}
+                      onSignalHover={setHoveredInsightId}
+                      trades={tradeMarkerList}
                     />
                   </div>
                 )}
               </div>
+
+              <div className="mt-4 flex flex-wrap items-center gap-2 text-xs">
+                <button
+                  type="button"
+                  onClick={() => setAnchorMode((active) => !active)}
+                  className={`rounded-full border px-3 py-1 font-medium transition ${
+                    anchorMode
+                      ? "border-pink-400/60 bg-pink-500/20 text-pink-100"
+                      : "border-white/10 bg-slate-900/70 text-slate-300 hover:bg-white/10"
+                  }`}
+                >
+                  {anchorMode ? "Click a bar to anchor…" : "＋ Anchor VWAP"}
+                </button>
+                {analysis.anchoredVwaps.map((anchored) => (
+                  <span
+                    key={anchored.id}
+                    className="rounded-full bg-slate-900/70 px-3 py-1 text-slate-400"
+                  >
+                    {anchored.label}
+                  </span>
+                ))}
+                {manualAnchors.map((anchored) => (
+                  <span
+                    key={anchored.id}
+                    className="flex items-center gap-2 rounded-full bg-pink-500/10 px-3 py-1 text-pink-100"
+                  >
+                    {anchored.label}
+                    <button
+                      type="button"
+                      aria-label={`Remove ${anchored.label}`}
+                      onClick={() =>
+                        setAnchorTimestamps((current) =>
+                          current.filter(
+                            (timestamp) =>
+                              timestamp !== anchored.anchorTimestamp,
+                          ),
+                        )
+                      }
+                      className="text-pink-300 hover:text-white"
+                    >
+                      ✕
+                    </button>
+                  </span>
+                ))}
+              </div>
             </div>
+
+            {points.length > 0 && (
+              <DetectorScorecard report={scorecard} interval={interval} />
+            )}
           </div>
 
           <aside className="space-y-6">
@@ -266,6 +967,115 @@ export default function Home() {
                   </p>
                 </div>
               </div>
+
+              {analysis.priorDay && (
+                <div className="mt-4 rounded-2xl border border-white/5 bg-slate-900/70 p-4 text-sm">
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs uppercase tracking-[0.32em] text-slate-400">
+                      Prior Day
+                    </p>
+                    <p className="text-xs text-slate-400">
+                      Gap{" "}
+                      {formatNumber(
+                        analysis.sessions[analysis.sessions.length - 1]
+                          ?.gapPct ?? 0,
+                      )}
+                      %
+                    </p>
+                  </div>
+                  <p className="mt-2 text-base font-semibold text-white">
+                    H {formatNumber(analysis.priorDay.high)} · L{" "}
+                    {formatNumber(analysis.priorDay.low)} · C{" "}
+                    {formatNumber(analysis.priorDay.close)}
+                  </p>
+                  <p className="mt-1 text-xs text-slate-400">
+                    {analysis.sessions.length} sessions loaded
+                  </p>
+                </div>
+              )}
+            </div>
+
+            <div className="rounded-3xl border border-white/10 bg-white/5 p-6">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold uppercase tracking-[0.3em] text-slate-400">
+                  Timeframe Alignment
+                </h3>
+                <div className="flex gap-1">
+                  {intervals
+                    .filter(
+                      ({ value }) =>
+                        intervalSeconds(value) > intervalSeconds(interval),
+                    )
+                    .map(({ label, value }) => (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => timeframeSelection.toggle(value)}
+                        className={`rounded-full px-2 py-0.5 text-[11px] font-medium transition ${
+                          timeframeSelection.selected.includes(value)
+                            ? "bg-blue-500/20 text-blue-100"
+                            : "bg-slate-900/70 text-slate-500 hover:bg-white/10"
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                </div>
+              </div>
+
+              <table className="mt-4 w-full text-left text-xs">
+                <thead className="text-[11px] uppercase tracking-[0.2em] text-slate-500">
+                  <tr>
+                    <th className="pb-2 font-medium">TF</th>
+                    <th className="pb-2 font-medium">Trend</th>
+                    <th className="pb-2 font-medium">EMA</th>
+                    <th className="pb-2 text-right font-medium">vs slow</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5">
+                  {analysis.timeframes.map((row) => (
+                    <tr key={row.interval}>
+                      <td className="py-1.5 font-semibold text-white">
+                        {row.interval}
+                        {row.primary && (
+                          <span className="ml-1 text-[10px] font-normal text-slate-500">
+                            chart
+                          </span>
+                        )}
+                      </td>
+                      <td
+                        className={`py-1.5 ${biasStyles[row.trend].className}`}
+                      >
+                        {row.asOf === null ? "—" : biasStyles[row.trend].label}
+                      </td>
+                      <td className={`py-1.5 ${biasStyles[row.ema].className}`}>
+                        {row.asOf === null ? "—" : biasStyles[row.ema].label}
+                      </td>
+                      <td className="py-1.5 text-right text-slate-300">
+                        {row.asOf === null
+                          ? "—"
+                          : `${formatNumber(row.closeVsSlowPct)}%`}
+                      </td>
+                    </tr>
+                  ))}
+                  {Object.entries(higherTimeframes.errors)
+                    .filter(([tf]) => higherIntervals.includes(tf))
+                    .map(([tf, message]) => (
+                      <tr key={tf}>
+                        <td className="py-1.5 font-semibold text-white">
+                          {tf}
+                        </td>
+                        <td colSpan={3} className="py-1.5 text-slate-500">
+                          {message}
+                        </td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+              <p className="mt-3 text-[11px] text-slate-500">
+                Higher timeframes only count bars that had closed by each chart
+                bar, then nudge insight confidence by their agreement.
+              </p>
             </div>
 
             <div className="rounded-3xl border border-white/10 bg-gradient-to-br from-slate-900 to-slate-950 p-6">
@@ -277,6 +1087,12 @@ export default function Home() {
                   {analysis.signals.length} signals mapped
                 </span>
               </div>
+              {replay.active && (
+                <p className="mt-2 text-[11px] text-slate-500">
+                  Replay shows each trigger on the bar that fired it, newest
+                  first.
+                </p>
+              )}
 
               <div className="mt-5 space-y-4">
                 {analysis.insights.length === 0 ? (
@@ -285,39 +1101,134 @@ export default function Home() {
                     new setups will populate automatically.
                   </div>
                 ) : (
-                  analysis.insights.map((insight) => (
-                    <article
-                      key={insight.id}
-                      className="rounded-2xl border border-white/10 bg-slate-900/70 p-5"
-                    >
-                      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
-                        <div>
-                          <p className="text-base font-semibold text-white">
-                            {insight.title}
-                          </p>
-                          {insight.changePct !== undefined && (
-                            <p className="text-xs text-slate-400">
-                              Impulse: {formatNumber(insight.changePct)}%
+                  analysis.insights.map((insight) => {
+                    const linked = insight.startIndex !== undefined;
+                    const select = () =>
+                      setSelectedInsightId((current) =>
+                        current === insight.id ? null : insight.id,
+                      );
+
+                    return (
+                      <article
+                        key={insight.id}
+                        role={linked ? "button" : undefined}
+                        tabIndex={linked ? 0 : undefined}
+                        aria-pressed={
+                          linked ? selectedInsightId === insight.id : undefined
+                        }
+                        onClick={linked ? select : undefined}
+                        onKeyDown={
+                          linked
+                            ? (event) => {
+                                if (
+                                  event.key !== "Enter" &&
+                                  event.key !== " "
+                                ) {
+                                  return;
+                                }
+                                event.preventDefault();
+                                select();
+                              }
+                            : undefined
+                        }
+                        className={`rounded-2xl border p-5 transition ${
+                          selectedInsightId === insight.id
+                            ? "border-sky-400/60 bg-sky-500/10"
+                            : hoveredInsightId === insight.id
+                              ? "border-amber-300/60 bg-slate-900/70"
+                              : "border-white/10 bg-slate-900/70"
+                        } ${linked ? "cursor-pointer hover:border-white/30" : ""}`}
+                      >
+                        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                          <div>
+                            <p className="text-base font-semibold text-white">
+                              {insight.title}
                             </p>
-                          )}
+                            {insight.changePct !== undefined && (
+                              <p className="text-xs text-slate-400">
+                                Impulse: {formatNumber(insight.changePct)}%
+                              </p>
+                            )}
+                          </div>
+                          <span
+                            className={`rounded-full px-3 py-1 text-xs font-semibold ${confidenceBadgeStyles(insight.confidence)}`}
+                          >
+                            {insight.confidence.toUpperCase()}
+                          </span>
                         </div>
-                        <span
-                          className={`rounded-full px-3 py-1 text-xs font-semibold ${confidenceBadgeStyles(insight.confidence)}`}
-                        >
-                          {insight.confidence.toUpperCase()}
-                        </span>
-                      </div>
-                      <p className="mt-3 text-sm text-slate-300">
-                        {insight.description}
-                      </p>
-                    </article>
-                  ))
+                        <p className="mt-3 text-sm text-slate-300">
+                          {insight.description}
+                        </p>
+                        {insight.confluence &&
+                          insight.confluence.timeframes > 0 && (
+                            <p
+                              className={`mt-3 inline-block rounded-full px-3 py-1 text-[11px] ${confluenceChipStyles(insight.confluence.score)}`}
+                            >
+                              HTF confluence{" "}
+                              {insight.confluence.score > 0 ? "+" : ""}
+                              {formatNumber(insight.confluence.score)} · trend{" "}
+                              {formatNumber(insight.confluence.trend, 1)} · EMA{" "}
+                              {formatNumber(insight.confluence.ema, 1)} · levels{" "}
+                              {formatNumber(insight.confluence.levels, 1)}
+                            </p>
+                          )}
+                      </article>
+                    );
+                  })
                 )}
               </div>
             </div>
+
+            <PaperTradingPanel
+              instrument={instrument}
+              lastBar={lastLiveBar}
+              account={paper.account}
+              settings={paper.settings}
+              onSubmitOrder={(order) => {
+                if (lastLiveBar) {
+                  paper.submitOrder(order, instrument, lastLiveBar);
+                }
+              }}
+              onCancelOrder={paper.cancelOrder}
+              onCloseTrade={(id) => {
+                if (lastLiveBar) paper.closeTrade(id, instrument, lastLiveBar);
+              }}
+              onReset={paper.reset}
+              onSettingsChange={paper.updateSettings}
+            />
+            <AlertsPanel
+              symbol={symbol}
+              lastPrice={points[points.length - 1]?.close ?? null}
+              intervals={intervals
+                .map(({ value }) => value)
+                .filter(
+                  (value) =>
+                    intervalSeconds(value) >= intervalSeconds(interval),
+                )}
+              rules={alerts.rules}
+              history={alerts.history}
+              delivery={alerts.delivery}
+              onAddRule={alerts.addRule}
+              onToggleRule={alerts.toggleRule}
+              onRemoveRule={alerts.removeRule}
+              onClearHistory={alerts.clearHistory}
+              onDeliveryChange={alerts.setDelivery}
+            />
           </aside>
         </section>
       </div>
+
+      <SettingsDrawer
+        open={settingsOpen}
+        config={settings.config}
+        presets={settings.presets}
+        onClose={() => setSettingsOpen(false)}
+        onChange={settings.setConfig}
+        onSavePreset={settings.savePreset}
+        onApplyPreset={settings.applyPreset}
+        onDeletePreset={settings.deletePreset}
+        onReset={settings.resetConfig}
+      />
     </div>
   );
 }
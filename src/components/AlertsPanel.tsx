@@ -0,0 +1,394 @@
+"use client";
+
+import { useState } from "react";
+import type { AlertDelivery } from "@/hooks/useAlerts";
+import { postWebhook } from "@/hooks/useAlerts";
+import {
+  type AlertEvent,
+  type AlertRule,
+  type AlertRuleDraft,
+  type AlertRuleKind,
+  type CrossDirection,
+  describeRule,
+} from "@/lib/alerts";
+import { formatIstDateTime } from "@/lib/sessions";
+import type { InsightConfidence } from "@/lib/types";
+
+interface AlertsPanelProps {
+  symbol: string;
+  lastPrice: number | null;
+  intervals: string[];
+  rules: AlertRule[];
+  history: AlertEvent[];
+  delivery: AlertDelivery;
+  onAddRule: (rule: AlertRuleDraft) => void;
+  onToggleRule: (id: string) => void;
+  onRemoveRule: (id: string) => void;
+  onClearHistory: () => void;
+  onDeliveryChange: (patch: Partial<AlertDelivery>) => void;
+}
+
+const fieldStyles =
+  "rounded-lg border border-white/10 bg-slate-900 px-2 py-1 text-xs text-slate-100 focus:border-blue-400 focus:outline-none";
+
+const ruleKinds: Array<{ label: string; value: AlertRuleKind }> = [
+  { label: "Price crosses level", value: "price-cross" },
+  { label: "New insight", value: "insight" },
+  { label: "EMA cross", value: "ema-cross" },
+  { label: "Session range exceeds", value: "range" },
+];
+
+const crossDirections: Array<{ label: string; value: CrossDirection }> = [
+  { label: "Either way", value: "either" },
+  { label: "Upward", value: "up" },
+  { label: "Downward", value: "down" },
+];
+
+export function AlertsPanel({
+  symbol,
+  lastPrice,
+  intervals,
+  rules,
+  history,
+  delivery,
+  onAddRule,
+  onToggleRule,
+  onRemoveRule,
+  onClearHistory,
+  onDeliveryChange,
+}: AlertsPanelProps) {
+  const [kind, setKind] = useState<AlertRuleKind>("insight");
+  const [scoped, setScoped] = useState(true);
+  const [level, setLevel] = useState("");
+  const [direction, setDirection] = useState<CrossDirection>("either");
+  const [minConfidence, setMinConfidence] = useState<InsightConfidence>("high");
+  const [bias, setBias] = useState<"bullish" | "bearish" | "any">("any");
+  const [emaInterval, setEmaInterval] = useState("15m");
+  const [fast, setFast] = useState(9);
+  const [slow, setSlow] = useState(21);
+  const [thresholdPct, setThresholdPct] = useState(1);
+  const [webhookDraft, setWebhookDraft] = useState<string | null>(null);
+  const [webhookStatus, setWebhookStatus] = useState<string | null>(null);
+
+  const webhookUrl = webhookDraft ?? delivery.webhookUrl;
+  const emaTimeframe = intervals.includes(emaInterval)
+    ? emaInterval
+    : intervals[0];
+  const levelValue = level === "" ? NaN : Number(level);
+
+  const buildDraft = (): AlertRuleDraft | null => {
+    // Price levels only make sense for the instrument they were typed for.
+    const scope = scoped || kind === "price-cross" ? symbol : null;
+
+    switch (kind) {
+      case "price-cross":
+        return Number.isFinite(levelValue) && levelValue > 0
+          ? { kind, symbol: scope, level: levelValue, direction }
+          : null;
+      case "insight":
+        return { kind, symbol: scope, minConfidence, direction: bias };
+      case "ema-cross":
+        return fast > 0 && slow > fast
+          ? {
+              kind,
+              symbol: scope,
+              interval: emaTimeframe,
+              fast,
+              slow,
+              direction,
+            }
+          : null;
+      case "range":
+        return thresholdPct > 0 ? { kind, symbol: scope, thresholdPct } : null;
+    }
+  };
+  const draft = buildDraft();
+
+  const toggleNotifications = async () => {
+    if (delivery.notifications) {
+      onDeliveryChange({ notifications: false });
+      return;
+    }
+    if (typeof Notification === "undefined") {
+      setWebhookStatus("This browser does not support notifications.");
+      return;
+    }
+    const permission =
+      Notification.permission === "granted"
+        ? "granted"
+        : await Notification.requestPermission();
+    onDeliveryChange({ notifications: permission === "granted" });
+    if (permission !== "granted") {
+      setWebhookStatus("Notification permission was not granted.");
+    }
+  };
+
+  const sendTest = async () => {
+    setWebhookStatus("Sending…");
+    const now = Math.floor(Date.now() / 1000);
+    try {
+      await postWebhook(webhookUrl, {
+        id: `test|${now}`,
+        ruleId: "test",
+        symbol,
+        title: `${symbol} test alert`,
+        message: "Webhook delivery is working.",
+        barTimestamp: now,
+        firedAt: now,
+      });
+      setWebhookStatus("Test alert delivered.");
+    } catch (err) {
+      setWebhookStatus(err instanceof Error ? err.message : "Unknown error.");
+    }
+  };
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/5 p-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold uppercase tracking-[0.3em] text-slate-400">
+          Alerts
+        </h3>
+        <button
+          type="button"
+          onClick={toggleNotifications}
+          className={`rounded-full px-3 py-1 text-xs font-medium transition ${
+            delivery.notifications
+              ? "bg-emerald-500/20 text-emerald-100"
+              : "bg-slate-900/70 text-slate-400 hover:bg-white/10"
+          }`}
+        >
+          {delivery.notifications
+            ? "🔔 Notifications on"
+            : "🔕 Notifications off"}
+        </button>
+      </div>
+
+      <div className="mt-4 space-y-2 rounded-2xl border border-white/5 bg-slate-900/70 p-4">
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={kind}
+            onChange={(event) => setKind(event.target.value as AlertRuleKind)}
+            className={fieldStyles}
+          >
+            {ruleKinds.map(({ label, value }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+
+          {kind === "price-cross" && (
+            <input
+              type="number"
+              value={level}
+              placeholder={lastPrice?.toFixed(2) ?? "Level"}
+              onChange={(event) => setLevel(event.target.value)}
+              className={`${fieldStyles} w-28`}
+            />
+          )}
+          {kind === "insight" && (
+            <>
+              <select
+                value={minConfidence}
+                onChange={(event) =>
+                  setMinConfidence(event.target.value as InsightConfidence)
+                }
+                className={fieldStyles}
+              >
+                <option value="high">High only</option>
+                <option value="medium">Medium +</option>
+                <option value="low">Any confidence</option>
+              </select>
+              <select
+                value={bias}
+                onChange={(event) =>
+                  setBias(event.target.value as "bullish" | "bearish" | "any")
+                }
+                className={fieldStyles}
+              >
+                <option value="any">Either bias</option>
+                <option value="bullish">Bullish</option>
+                <option value="bearish">Bearish</option>
+              </select>
+            </>
+          )}
+          {kind === "ema-cross" && (
+            <>
+              <input
+                type="number"
+                min={1}
+                value={fast}
+                onChange={(event) => setFast(event.target.valueAsNumber)}
+                className={`${fieldStyles} w-14`}
+                aria-label="Fast EMA"
+              />
+              <input
+                type="number"
+                min={2}
+                value={slow}
+                onChange={(event) => setSlow(event.target.valueAsNumber)}
+                className={`${fieldStyles} w-14`}
+                aria-label="Slow EMA"
+              />
+              <select
+                value={emaTimeframe}
+                onChange={(event) => setEmaInterval(event.target.value)}
+                className={fieldStyles}
+              >
+                {intervals.map((value) => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
+              </select>
+            </>
+          )}
+          {kind === "range" && (
+            <input
+              type="number"
+              min={0.1}
+              step={0.1}
+              value={thresholdPct}
+              onChange={(event) => setThresholdPct(event.target.valueAsNumber)}
+              className={`${fieldStyles} w-20`}
+              aria-label="Range threshold (%)"
+            />
+          )}
+          {(kind === "price-cross" || kind === "ema-cross") && (
+            <select
+              value={direction}
+              onChange={(event) =>
+                setDirection(event.target.value as CrossDirection)
+              }
+              className={fieldStyles}
+            >
+              {crossDirections.map(({ label, value }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 text-xs text-slate-400">
+          {kind === "price-cross" ? (
+            <span>Applies to {symbol}</span>
+          ) : (
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={scoped}
+                onChange={(event) => setScoped(event.target.checked)}
+                className="h-3.5 w-3.5 accent-blue-500"
+              />
+              Only {symbol}
+            </label>
+          )}
+          <button
+            type="button"
+            disabled={!draft}
+            onClick={() => {
+              if (!draft) return;
+              onAddRule(draft);
+              setLevel("");
+            }}
+            className="rounded-lg bg-blue-500 px-3 py-1 font-semibold text-white disabled:opacity-40"
+          >
+            Add rule
+          </button>
+        </div>
+      </div>
+
+      {rules.length > 0 && (
+        <ul className="mt-4 space-y-1">
+          {rules.map((rule) => (
+            <li
+              key={rule.id}
+              className="flex items-center justify-between gap-2 rounded-lg bg-slate-900/70 px-3 py-1.5 text-xs"
+            >
+              <label
+                className={`flex items-center gap-2 ${
+                  rule.enabled ? "text-slate-200" : "text-slate-500"
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={() => onToggleRule(rule.id)}
+                  className="h-3.5 w-3.5 accent-emerald-500"
+                />
+                {describeRule(rule)}
+              </label>
+              <button
+                type="button"
+                onClick={() => onRemoveRule(rule.id)}
+                className="text-slate-500 hover:text-rose-300"
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-4 flex gap-2">
+        <input
+          value={webhookUrl}
+          onChange={(event) => setWebhookDraft(event.target.value)}
+          onBlur={() => {
+            if (webhookDraft === null) return;
+            onDeliveryChange({ webhookUrl: webhookDraft.trim() });
+            setWebhookDraft(null);
+          }}
+          placeholder="Webhook URL (optional)"
+          className={`${fieldStyles} flex-1`}
+        />
+        <button
+          type="button"
+          disabled={!webhookUrl.trim()}
+          onClick={sendTest}
+          className="rounded-lg border border-white/10 px-3 py-1 text-xs text-slate-300 hover:bg-white/10 disabled:opacity-40"
+        >
+          Send test
+        </button>
+      </div>
+      {webhookStatus && (
+        <p className="mt-2 text-[11px] text-slate-400">{webhookStatus}</p>
+      )}
+
+      <div className="mt-5 flex items-center justify-between">
+        <p className="text-xs uppercase tracking-[0.3em] text-slate-500">
+          History
+        </p>
+        {history.length > 0 && (
+          <button
+            type="button"
+            onClick={onClearHistory}
+            className="text-xs text-slate-500 hover:text-slate-300"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      {history.length === 0 ? (
+        <p className="mt-2 text-xs text-slate-500">No alerts fired yet.</p>
+      ) : (
+        <ul className="mt-2 max-h-64 space-y-2 overflow-y-auto">
+          {history.map((event) => (
+            <li
+              key={event.id}
+              className="rounded-lg bg-slate-900/70 px-3 py-2 text-xs"
+            >
+              <p className="font-semibold text-white">{event.title}</p>
+              <p className="mt-0.5 text-slate-400">{event.message}</p>
+              <p className="mt-1 text-[10px] text-slate-500">
+                {formatIstDateTime(event.firedAt)}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
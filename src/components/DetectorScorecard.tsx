@@ -0,0 +1,102 @@
+"use client";
+
+import type { BacktestReport, ScorecardRow } from "@/lib/backtest";
+
+interface DetectorScorecardProps {
+  report: BacktestReport;
+  interval: string;
+}
+
+function formatPct(value: number) {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+}
+
+function hitRateStyles(row: ScorecardRow, idx: number) {
+  const stats = row.horizons[idx];
+  if (!stats || stats.samples === 0) return "text-slate-500";
+  if (stats.hitRate >= 0.55) return "text-emerald-300";
+  if (stats.hitRate <= 0.45) return "text-rose-300";
+  return "text-slate-200";
+}
+
+export function DetectorScorecard({
+  report,
+  interval,
+}: DetectorScorecardProps) {
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/5 p-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold uppercase tracking-[0.3em] text-slate-400">
+          Detector Scorecard
+        </h3>
+        <span className="rounded-full bg-slate-800 px-3 py-1 text-xs text-slate-300">
+          {report.bars} bars · no lookahead
+        </span>
+      </div>
+
+      <div className="mt-5 overflow-x-auto">
+        <table className="w-full text-left text-xs text-slate-300">
+          <thead className="text-[10px] uppercase tracking-[0.2em] text-slate-500">
+            <tr>
+              <th className="pb-2 pr-3 font-medium">Detector</th>
+              <th className="pb-2 pr-3 font-medium">n</th>
+              {report.horizons.map((horizon) => (
+                <th key={horizon} className="pb-2 pr-3 font-medium">
+                  +{horizon}×{interval}
+                </th>
+              ))}
+              <th className="pb-2 pr-3 font-medium">MFE</th>
+              <th className="pb-2 font-medium">MAE</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.rows.map((row) => (
+              <tr
+                key={`${row.detector}-${row.confidence}`}
+                className={
+                  row.confidence === "all"
+                    ? "border-t border-white/10 text-slate-100"
+                    : "text-slate-400"
+                }
+              >
+                <td className="py-1.5 pr-3">
+                  {row.confidence === "all" ? (
+                    <span className="font-semibold">{row.label}</span>
+                  ) : (
+                    <span className="pl-3">↳ {row.confidence}</span>
+                  )}
+                </td>
+                <td className="py-1.5 pr-3">{row.signals}</td>
+                {row.horizons.map((stats, idx) => (
+                  <td
+                    key={stats.horizon}
+                    className={`py-1.5 pr-3 ${hitRateStyles(row, idx)}`}
+                    title={`${stats.samples} samples · avg ${formatPct(
+                      stats.avgReturnPct,
+                    )}`}
+                  >
+                    {stats.samples === 0
+                      ? "—"
+                      : `${Math.round(stats.hitRate * 100)}% · ${formatPct(
+                          stats.avgReturnPct,
+                        )}`}
+                  </td>
+                ))}
+                <td className="py-1.5 pr-3">
+                  {row.signals === 0 ? "—" : formatPct(row.avgMfePct)}
+                </td>
+                <td className="py-1.5">
+                  {row.signals === 0 ? "—" : formatPct(-row.avgMaePct)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-4 text-[11px] text-slate-500">
+        Hit rate and average signed return at each forward horizon, measured
+        within the signal&apos;s session. MFE/MAE span the longest horizon.
+      </p>
+    </div>
+  );
+}
@@ -1,10 +1,15 @@
 "use client";
 
 import {
+  BarController,
+  BarElement,
   CategoryScale,
   Chart as ChartJS,
+  type ChartData,
+  type ChartOptions,
   Filler,
   Legend,
+  LineController,
   LineElement,
   LinearScale,
   PointElement,
@@ -12,12 +17,39 @@ import {
   Tooltip,
 } from "chart.js";
 import "chartjs-adapter-date-fns";
-import { Line } from "react-chartjs-2";
-import type { IntradayPoint, SignalMarker } from "@/lib/types";
+import { useEffect, useRef, useState } from "react";
+import { Chart } from "react-chartjs-2";
+import { toHeikinAshi } from "@/lib/bars";
+import type { IndicatorPlot, IndicatorValue } from "@/lib/indicators";
+import { formatIstTime, istDateLabel } from "@/lib/sessions";
+import type {
+  AnchoredVwap,
+  IntradayPoint,
+  LevelZone,
+  OpeningRange,
+  SignalMarker,
+  TradeMarker,
+  VwapBands,
+} from "@/lib/types";
+import {
+  BEAR_VOLUME_COLOR,
+  BULL_VOLUME_COLOR,
+  type HighlightSpan,
+  type PriceStyle,
+  crosshairPlugin,
+  levelZonePlugin,
+  openingRangePlugin,
+  priceBarsPlugin,
+  sessionSeparatorPlugin,
+  spanHighlightPlugin,
+} from "./chartPlugins";
 
 ChartJS.register(
+  BarController,
+  BarElement,
   CategoryScale,
   LinearScale,
+  LineController,
   PointElement,
   LineElement,
   TimeScale,
@@ -26,13 +58,54 @@ ChartJS.register(
   Filler,
 );
 
+type MixedType = "line" | "bar";
+
 interface IntradayChartProps {
   points: IntradayPoint[];
-  ema9: number[];
-  ema21: number[];
+  emaFast: number[];
+  emaSlow: number[];
+  emaLengths?: { fast: number; slow: number };
   signals: SignalMarker[];
+  sessionStarts?: number[];
+  priceStyle?: PriceStyle;
+  vwap?: VwapBands;
+  anchoredVwaps?: Array<
+    Pick<AnchoredVwap, "id" | "label" | "values" | "anchorIndex">
+  >;
+  onBarClick?: (index: number) => void;
+  indicators?: IndicatorPlot[];
+  levels?: LevelZone[];
+  openingRanges?: OpeningRange[];
+  // Shaded on the chart; the view pans to it whenever it changes.
+  highlight?: HighlightSpan | null;
+  onSignalHover?: (insightId: string | null) => void;
+  trades?: TradeMarker[];
+}
+
+// Visible x range in epoch milliseconds; null shows every bar.
+type ViewRange = { min: number; max: number } | null;
+
+const MIN_VISIBLE_BARS = 10;
+const FOCUS_BARS = 80;
+const WHEEL_ZOOM_FACTOR = 1.2;
+const DRAG_THRESHOLD_PX = 4;
+const WHEEL_COMMIT_MS = 150;
+
+function clampView(
+  min: number,
+  max: number,
+  extent: { min: number; max: number },
+  minSpan: number,
+): ViewRange {
+  const span = Math.max(minSpan, max - min);
+  if (span >= extent.max - extent.min) return null;
+
+  const start = Math.min(Math.max(min, extent.min), extent.max - span);
+  return { min: start, max: start + span };
 }
 
+const ANCHORED_VWAP_COLORS = ["#f472b6", "#fb923c", "#c084fc", "#2dd4bf"];
+
 const priceGradient = (ctx?: CanvasRenderingContext2D | null) => {
   if (!ctx) return "rgba(56, 189, 248, 0.18)";
 
@@ -44,10 +117,178 @@ const priceGradient = (ctx?: CanvasRenderingContext2D | null) => {
 
 export function IntradayChart({
   points,
-  ema9,
-  ema21,
+  emaFast,
+  emaSlow,
+  emaLengths = { fast: 9, slow: 21 },
   signals,
+  sessionStarts = [],
+  priceStyle = "line",
+  vwap,
+  anchoredVwaps = [],
+  onBarClick,
+  indicators = [],
+  levels = [],
+  openingRanges = [],
+  highlight = null,
+  onSignalHover,
+  trades = [],
 }: IntradayChartProps) {
+  const chartRef = useRef<ChartJS<MixedType>>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const suppressClickRef = useRef(false);
+  const hoveredSignalRef = useRef<string | null>(null);
+  const [view, setView] = useState<ViewRange>(null);
+
+  // The smallest spacing is the bar interval; averages include the nights.
+  const barMs =
+    points.reduce(
+      (smallest, point, idx) =>
+        idx === 0
+          ? smallest
+          : Math.min(smallest, point.timestamp - points[idx - 1].timestamp),
+      Number.POSITIVE_INFINITY,
+    ) * 1000 || 60_000;
+  const extent = {
+    min: (points[0]?.timestamp ?? 0) * 1000 - barMs / 2,
+    max: (points[points.length - 1]?.timestamp ?? 0) * 1000 + barMs / 2,
+  };
+  const minSpan = barMs * MIN_VISIBLE_BARS;
+  const extentRef = useRef({ extent, minSpan });
+  const hasPoints = points.length > 0;
+
+  useEffect(() => {
+    extentRef.current = { extent, minSpan };
+  });
+
+  // A new series (symbol, interval or range) starts fully zoomed out.
+  const seriesKey = points[0]?.timestamp ?? null;
+  const [seenSeries, setSeenSeries] = useState(seriesKey);
+  if (seriesKey !== seenSeries) {
+    setSeenSeries(seriesKey);
+    setView(null);
+  }
+
+  // Pan so the highlighted span sits in the middle, keeping the zoom level
+  // (or zooming in from the full view) unless the span needs more room.
+  const highlightKey = highlight ? `${highlight.start}-${highlight.end}` : null;
+  const [seenHighlight, setSeenHighlight] = useState(highlightKey);
+  if (highlightKey !== seenHighlight) {
+    setSeenHighlight(highlightKey);
+    if (highlight) {
+      const start = highlight.start * 1000;
+      const end = highlight.end * 1000;
+      const width = Math.max(
+        view ? view.max - view.min : barMs * FOCUS_BARS,
+        (end - start) * 1.5,
+      );
+      const middle = (start + end) / 2;
+      setView(
+        clampView(middle - width / 2, middle + width / 2, extent, minSpan),
+      );
+    }
+  }
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let commitTimer: ReturnType<typeof setTimeout> | undefined;
+    let drag: { x: number; min: number; max: number; moved: boolean } | null =
+      null;
+
+    const apply = (range: ViewRange) => {
+      const chart = chartRef.current;
+      const x = chart?.options.scales?.x;
+      if (!chart || !x) return;
+      x.min = range?.min;
+      x.max = range?.max;
+      chart.update("none");
+    };
+    const current = () => {
+      const x = chartRef.current?.scales.x;
+      return x ? { min: x.min, max: x.max } : null;
+    };
+
+    // Zooms around the pointer so the bar under it stays put.
+    const handleWheel = (event: WheelEvent) => {
+      const chart = chartRef.current;
+      const range = current();
+      if (!chart || !range) return;
+      event.preventDefault();
+
+      const { extent, minSpan } = extentRef.current;
+      const anchor =
+        chart.scales.x.getValueForPixel(event.offsetX) ?? range.min;
+      const factor =
+        event.deltaY > 0 ? WHEEL_ZOOM_FACTOR : 1 / WHEEL_ZOOM_FACTOR;
+      const next = clampView(
+        anchor - (anchor - range.min) * factor,
+        anchor + (range.max - anchor) * factor,
+        extent,
+        minSpan,
+      );
+      apply(next);
+      clearTimeout(commitTimer);
+      commitTimer = setTimeout(() => setView(next), WHEEL_COMMIT_MS);
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      const range = current();
+      if (event.button !== 0 || !range) return;
+      drag = { x: event.clientX, ...range, moved: false };
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      const chart = chartRef.current;
+      if (!drag || !chart) return;
+
+      const dx = event.clientX - drag.x;
+      if (!drag.moved && Math.abs(dx) < DRAG_THRESHOLD_PX) return;
+      if (!drag.moved) {
+        drag.moved = true;
+        container.setPointerCapture(event.pointerId);
+        container.style.cursor = "grabbing";
+      }
+
+      const { extent, minSpan } = extentRef.current;
+      const shift = (dx * (drag.max - drag.min)) / chart.chartArea.width;
+      apply(clampView(drag.min - shift, drag.max - shift, extent, minSpan));
+    };
+
+    const handlePointerUp = () => {
+      if (drag?.moved) {
+        // The click that ends a drag should not also pick a bar.
+        suppressClickRef.current = true;
+        setTimeout(() => {
+          suppressClickRef.current = false;
+        });
+        const range = current();
+        const { extent, minSpan } = extentRef.current;
+        setView(range && clampView(range.min, range.max, extent, minSpan));
+      }
+      drag = null;
+      container.style.cursor = "";
+    };
+
+    const handleDoubleClick = () => setView(null);
+
+    container.addEventListener("wheel", handleWheel, { passive: false });
+    container.addEventListener("pointerdown", handlePointerDown);
+    container.addEventListener("pointermove", handlePointerMove);
+    container.addEventListener("pointerup", handlePointerUp);
+    container.addEventListener("pointercancel", handlePointerUp);
+    container.addEventListener("dblclick", handleDoubleClick);
+    return () => {
+      clearTimeout(commitTimer);
+      container.removeEventListener("wheel", handleWheel);
+      container.removeEventListener("pointerdown", handlePointerDown);
+      container.removeEventListener("pointermove", handlePointerMove);
+      container.removeEventListener("pointerup", handlePointerUp);
+      container.removeEventListener("pointercancel", handlePointerUp);
+      container.removeEventListener("dblclick", handleDoubleClick);
+    };
+  }, [hasPoints]);
+
   if (points.length === 0) {
     return (
       <div className="flex h-full items-center justify-center rounded-xl border border-white/10 bg-white/5 text-sm text-slate-400">
@@ -56,21 +297,161 @@ export function IntradayChart({
     );
   }
 
+  const isLine = priceStyle === "line";
+  const bars = priceStyle === "heikin-ashi" ? toHeikinAshi(points) : points;
+  const visibleBars = view
+    ? bars.filter(
+        (bar) =>
+          bar.timestamp * 1000 >= view.min && bar.timestamp * 1000 <= view.max,
+      )
+    : bars;
+  const priceLow = Math.min(...visibleBars.map((bar) => bar.low));
+  const priceHigh = Math.max(...visibleBars.map((bar) => bar.high));
+
   const closeSeries = points.map((point) => ({
     x: point.timestamp * 1000,
     y: point.close,
   }));
 
-  const ema9Series = ema9.map((value, idx) => ({
+  const volumeSeries = points.map((point) => ({
+    x: point.timestamp * 1000,
+    y: point.volume,
+  }));
+
+  const emaFastSeries = emaFast.map((value, idx) => ({
     x: points[idx]?.timestamp ? points[idx].timestamp * 1000 : idx,
     y: value,
   }));
 
-  const ema21Series = ema21.map((value, idx) => ({
+  const emaSlowSeries = emaSlow.map((value, idx) => ({
     x: points[idx]?.timestamp ? points[idx].timestamp * 1000 : idx,
     y: value,
   }));
 
+  const sessionOpens = new Set(sessionStarts);
+  const toSeries = (values: number[], offset = 0) =>
+    values.map((value, idx) => ({
+      x: points[idx + offset].timestamp * 1000,
+      y: value,
+    }));
+  // VWAP restarts every session, so never join the last bar of one day to the
+  // first bar of the next.
+  const sessionSegment = (color: string) => ({
+    borderColor: (ctx: { p1DataIndex: number }) =>
+      sessionOpens.has(points[ctx.p1DataIndex]?.timestamp)
+        ? "transparent"
+        : color,
+  });
+  const vwapBands = vwap
+    ? [
+        { label: "VWAP +2σ", values: vwap.upper2, alpha: 0.25 },
+        { label: "VWAP +1σ", values: vwap.upper1, alpha: 0.45 },
+        { label: "VWAP −1σ", values: vwap.lower1, alpha: 0.45 },
+        { label: "VWAP −2σ", values: vwap.lower2, alpha: 0.25 },
+      ]
+    : [];
+
+  const overlays = indicators.filter((plot) => plot.pane === "price");
+  const oscillators = indicators.filter((plot) => plot.pane === "oscillator");
+  const guideLabels = new Set<string>();
+  const indicatorSeries = (values: IndicatorValue[]) =>
+    values.map((value, idx) => ({
+      x: points[idx].timestamp * 1000,
+      y: value ?? Number.NaN,
+    }));
+
+  const oscillatorScales = Object.fromEntries(
+    oscillators.map((plot) => [
+      `osc-${plot.id}`,
+      {
+        type: "linear" as const,
+        stack: "tape",
+        stackWeight: 1.25,
+        offset: true,
+        min: plot.bounds?.min,
+        max: plot.bounds?.max,
+        title: {
+          display: true,
+          text: plot.label,
+          color: "#64748B",
+          font: { size: 10 },
+        },
+        grid: {
+          color: "rgba(255,255,255,0.04)",
+        },
+        ticks: {
+          color: "#64748B",
+          maxTicksLimit: 3,
+        },
+      },
+    ]),
+  );
+
+  const indicatorDatasets = [
+    ...overlays.flatMap((plot) =>
+      plot.lines.map((line) => ({
+        type: "line" as const,
+        label: line.label,
+        data: indicatorSeries(line.values),
+        parsing: false as const,
+        borderColor: line.color,
+        borderWidth: 1.25,
+        borderDash: line.dashed ? [4, 3] : undefined,
+        pointRadius: 0,
+      })),
+    ),
+    ...oscillators.flatMap((plot) => {
+      const yAxisID = `osc-${plot.id}`;
+      const guides = (plot.guides ?? []).map((level) => {
+        const label = `${plot.label} · ${level}`;
+        guideLabels.add(label);
+        return {
+          type: "line" as const,
+          label,
+          data: points.map((point) => ({
+            x: point.timestamp * 1000,
+            y: level,
+          })),
+          parsing: false as const,
+          yAxisID,
+          borderColor: "rgba(148, 163, 184, 0.35)",
+          borderWidth: 1,
+          borderDash: [2, 4],
+          pointRadius: 0,
+        };
+      });
+
+      const lines = plot.lines.map((line) =>
+        line.kind === "histogram"
+          ? {
+              type: "bar" as const,
+              label: line.label,
+              data: indicatorSeries(line.values),
+              parsing: false as const,
+              yAxisID,
+              barPercentage: 0.9,
+              categoryPercentage: 1,
+              backgroundColor: line.values.map((value) =>
+                (value ?? 0) >= 0 ? BULL_VOLUME_COLOR : BEAR_VOLUME_COLOR,
+              ),
+            }
+          : {
+              type: "line" as const,
+              label: line.label,
+              data: indicatorSeries(line.values),
+              parsing: false as const,
+              yAxisID,
+              borderColor: line.color,
+              borderWidth: 1.25,
+              borderDash: line.dashed ? [4, 3] : undefined,
+              pointRadius: 0,
+            },
+      );
+
+      return [...guides, ...lines];
+    }),
+  ];
+
   const signalMap = new Map<number, SignalMarker>();
   signals.forEach((signal) => signalMap.set(signal.timestamp, signal));
 
@@ -90,139 +471,348 @@ export function IntradayChart({
     };
   });
 
-  return (
-    <Line
-      datasetIdKey="intraday"
-      options={{
-        responsive: true,
-        maintainAspectRatio: false,
-        interaction: {
-          mode: "nearest",
-          intersect: false,
+  const tradeSeries = trades.map((trade) => ({
+    x: trade.timestamp * 1000,
+    y: trade.price,
+    trade,
+  }));
+
+  const options: ChartOptions<MixedType> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: {
+      mode: "nearest",
+      intersect: false,
+    },
+    onHover: onSignalHover
+      ? (_event, elements, chart) => {
+          const marker = elements
+            .map(
+              (element) =>
+                chart.data.datasets[element.datasetIndex].data[element.index],
+            )
+            .map((raw) => (raw as { marker?: SignalMarker })?.marker)
+            .find((entry) => entry !== undefined);
+          const insightId = marker?.insightId ?? null;
+          if (insightId === hoveredSignalRef.current) return;
+          hoveredSignalRef.current = insightId;
+          onSignalHover(insightId);
+        }
+      : undefined,
+    onClick: onBarClick
+      ? (event, _elements, chart) => {
+          if (suppressClickRef.current) return;
+          const position = chart.getElementsAtEventForMode(
+            event.native as Event,
+            "index",
+            { intersect: false },
+            false,
+          );
+          const index = position[0]?.index;
+          if (index !== undefined) onBarClick(index);
+        }
+      : undefined,
+    plugins: {
+      sessionSeparators: {
+        timestamps: sessionStarts.slice(1),
+      },
+      spanHighlight: {
+        span: highlight,
+      },
+      crosshair: {
+        bars: points,
+      },
+      priceBars: {
+        style: priceStyle,
+        bars,
+      },
+      levelZones: {
+        zones: levels,
+      },
+      openingRanges: {
+        ranges: openingRanges.map((range) => ({
+          start: points[range.startIndex].timestamp,
+          end: (points[range.endIndex + 1] ?? points[range.endIndex]).timestamp,
+          sessionEnd: points[range.sessionEndIndex].timestamp,
+          high: range.high,
+          low: range.low,
+          label: `OR ${range.minutes}m`,
+        })),
+      },
+      legend: {
+        labels: {
+          color: "#E2E8F0",
+          usePointStyle: true,
+          filter: (item) =>
+            (item.text !== "Close" || isLine) &&
+            !item.text.includes("σ") &&
+            !guideLabels.has(item.text),
         },
-        plugins: {
-          legend: {
-            labels: {
-              color: "#E2E8F0",
-              usePointStyle: true,
-            },
+      },
+      tooltip: {
+        displayColors: false,
+        callbacks: {
+          label(context) {
+            if (context.dataset.label === "Signals") {
+              const marker = (context.raw as { marker?: SignalMarker })?.marker;
+              if (!marker) return "";
+              return `${marker.label} · ${marker.price.toFixed(2)} · ${
+                marker.confidence
+              } conviction`;
+            }
+            if (context.dataset.label === "Trades") {
+              const trade = (context.raw as { trade?: TradeMarker })?.trade;
+              return trade ? `${trade.label} @ ${trade.price.toFixed(2)}` : "";
+            }
+            if (context.dataset.label === "Volume") {
+              return `Volume: ${Math.round(
+                context.parsed.y as number,
+              ).toLocaleString("en-IN")}`;
+            }
+            if (guideLabels.has(context.dataset.label ?? "")) return "";
+            if (context.dataset.label === "Close" && !isLine) {
+              const bar = bars[context.dataIndex];
+              if (!bar) return "";
+              return `O ${bar.open.toFixed(2)} · H ${bar.high.toFixed(
+                2,
+              )} · L ${bar.low.toFixed(2)} · C ${bar.close.toFixed(2)}`;
+            }
+            return `${context.dataset.label}: ${(
+              context.parsed.y as number
+            ).toFixed(2)}`;
           },
-          tooltip: {
-            displayColors: false,
-            callbacks: {
-              label(context) {
-                if (context.dataset.label === "Signals") {
-                  const marker = (context.raw as { marker?: SignalMarker })
-                    ?.marker;
-                  if (!marker) return "";
-                  return `${marker.label} · ${marker.price.toFixed(2)} · ${
-                    marker.confidence
-                  } conviction`;
-                }
-                return `${context.dataset.label}: ${(
-                  context.parsed.y as number
-                ).toFixed(2)}`;
-              },
-              title(items) {
-                if (items.length === 0) return "";
-                const ts = items[0].parsed.x as number;
-                return new Date(ts).toLocaleString("en-IN", {
-                  hour: "2-digit",
-                  minute: "2-digit",
-                  hour12: false,
-                  timeZone: "Asia/Kolkata",
-                });
-              },
-            },
+          title(items) {
+            if (items.length === 0) return "";
+            const ts = (items[0].parsed.x as number) / 1000;
+            return `${istDateLabel(ts)} · ${formatIstTime(ts)} IST`;
           },
         },
-        scales: {
-          x: {
-            type: "time",
-            time: {
-              unit: "hour",
-              displayFormats: {
-                hour: "HH:mm",
-              },
-              tooltipFormat: "dd MMM · HH:mm",
-            },
-            grid: {
-              color: "rgba(255,255,255,0.08)",
-            },
-            ticks: {
-              color: "#94A3B8",
-              autoSkip: true,
-              maxTicksLimit: 10,
-            },
-          },
-          y: {
-            grid: {
-              color: "rgba(255,255,255,0.08)",
-            },
-            ticks: {
-              color: "#CBD5F5",
-            },
+      },
+    },
+    scales: {
+      x: {
+        type: "time",
+        min: view?.min,
+        max: view?.max,
+        time: {
+          unit: "hour",
+          displayFormats: {
+            hour: "HH:mm",
           },
         },
-        elements: {
-          point: {
-            radius: 0,
-          },
+        grid: {
+          color: "rgba(255,255,255,0.08)",
         },
-      }}
-      data={{
-        datasets: [
-          {
-            type: "line",
-            label: "Close",
-            data: closeSeries,
-            parsing: false,
-            tension: 0.25,
-            borderColor: "#38bdf8",
-            borderWidth: 2,
-            pointRadius: 0,
-            fill: "origin",
-            backgroundColor: (context) => priceGradient(context.chart.ctx),
-          },
-          {
-            type: "line",
-            label: "EMA 9",
-            data: ema9Series,
-            parsing: false,
-            borderColor: "#34d399",
-            borderWidth: 1.5,
-            borderDash: [4, 4],
-            pointRadius: 0,
-          },
-          {
-            type: "line",
-            label: "EMA 21",
-            data: ema21Series,
-            parsing: false,
-            borderColor: "#facc15",
-            borderWidth: 1.5,
-            borderDash: [6, 4],
-            pointRadius: 0,
-          },
-          {
-            type: "line",
-            label: "Signals",
-            data: signalSeries,
-            parsing: false,
-            showLine: false,
-            pointRadius: 4,
-            pointBackgroundColor: signalSeries.map((entry) =>
-              entry.marker?.direction === "bullish"
-                ? "rgba(16, 185, 129, 0.9)"
-                : entry.marker?.direction === "bearish"
-                  ? "rgba(248, 113, 113, 0.9)"
-                  : "rgba(148, 163, 184, 0.6)",
+        ticks: {
+          color: "#94A3B8",
+          autoSkip: true,
+          maxTicksLimit: 10,
+          // The date adapter formats in the viewer's timezone; labels are
+          // always shown in exchange time instead.
+          callback: (value) => formatIstTime(Number(value) / 1000),
+        },
+      },
+      y: {
+        stack: "tape",
+        stackWeight: 4,
+        suggestedMin: isLine ? undefined : priceLow,
+        suggestedMax: isLine ? undefined : priceHigh,
+        grid: {
+          color: "rgba(255,255,255,0.08)",
+        },
+        ticks: {
+          color: "#CBD5F5",
+        },
+      },
+      volume: {
+        type: "linear",
+        stack: "tape",
+        stackWeight: 1,
+        offset: true,
+        beginAtZero: true,
+        grid: {
+          color: "rgba(255,255,255,0.04)",
+        },
+        ticks: {
+          color: "#64748B",
+          maxTicksLimit: 2,
+          callback: (value) =>
+            new Intl.NumberFormat("en-IN", { notation: "compact" }).format(
+              Number(value),
             ),
-            pointBorderColor: "#0b111b",
-            pointHoverRadius: 6,
-          },
-        ],
-      }}
-    />
+        },
+      },
+      ...oscillatorScales,
+    },
+    elements: {
+      point: {
+        radius: 0,
+      },
+    },
+  };
+
+  const data: ChartData<MixedType> = {
+    datasets: [
+      {
+        type: "line",
+        label: "Close",
+        data: closeSeries,
+        parsing: false,
+        tension: 0.25,
+        borderColor: isLine ? "#38bdf8" : "transparent",
+        borderWidth: 2,
+        pointRadius: 0,
+        fill: isLine ? "origin" : false,
+        backgroundColor: (context) => priceGradient(context.chart.ctx),
+      },
+      {
+        type: "line",
+        label: `EMA ${emaLengths.fast}`,
+        data: emaFastSeries,
+        parsing: false,
+        borderColor: "#34d399",
+        borderWidth: 1.5,
+        borderDash: [4, 4],
+        pointRadius: 0,
+      },
+      {
+        type: "line",
+        label: `EMA ${emaLengths.slow}`,
+        data: emaSlowSeries,
+        parsing: false,
+        borderColor: "#facc15",
+        borderWidth: 1.5,
+        borderDash: [6, 4],
+        pointRadius: 0,
+      },
+      ...(vwap
+        ? [
+            {
+              type: "line" as const,
+              label: vwap.volumeProxy ? "VWAP (time-weighted)" : "VWAP",
+              data: toSeries(vwap.values),
+              parsing: false as const,
+              borderColor: "#a78bfa",
+              borderWidth: 1.75,
+              pointRadius: 0,
+              segment: sessionSegment("#a78bfa"),
+            },
+            ...vwapBands.map((band) => {
+              const color = `rgba(167, 139, 250, ${band.alpha})`;
+              return {
+                type: "line" as const,
+                label: band.label,
+                data: toSeries(band.values),
+                parsing: false as const,
+                borderColor: color,
+                borderWidth: 1,
+                borderDash: [2, 3],
+                pointRadius: 0,
+                segment: sessionSegment(color),
+              };
+            }),
+          ]
+        : []),
+      ...indicatorDatasets,
+      ...anchoredVwaps.map((anchored, idx) => ({
+        type: "line" as const,
+        label: anchored.label,
+        data: toSeries(anchored.values, anchored.anchorIndex),
+        parsing: false as const,
+        borderColor: ANCHORED_VWAP_COLORS[idx % ANCHORED_VWAP_COLORS.length],
+        borderWidth: 1.25,
+        pointRadius: 0,
+      })),
+      {
+        type: "line",
+        label: "Signals",
+        data: signalSeries,
+        parsing: false,
+        showLine: false,
+        pointRadius: 4,
+        pointBackgroundColor: signalSeries.map((entry) =>
+          entry.marker?.direction === "bullish"
+            ? "rgba(16, 185, 129, 0.9)"
+            : entry.marker?.direction === "bearish"
+              ? "rgba(248, 113, 113, 0.9)"
+              : "rgba(148, 163, 184, 0.6)",
+        ),
+        pointBorderColor: "#0b111b",
+        pointHoverRadius: 6,
+      },
+      ...(tradeSeries.length > 0
+        ? [
+            {
+              type: "line" as const,
+              label: "Trades",
+              data: tradeSeries,
+              parsing: false as const,
+              showLine: false,
+              // Entries point the way the trade faces; exits are diamonds.
+              pointStyle: tradeSeries.map(({ trade }) =>
+                trade.kind === "entry" ? "triangle" : "rectRot",
+              ),
+              pointRotation: tradeSeries.map(({ trade }) =>
+                trade.kind === "entry" && trade.side === "short" ? 180 : 0,
+              ),
+              pointRadius: 6,
+              pointHoverRadius: 8,
+              pointBackgroundColor: tradeSeries.map(({ trade }) =>
+                trade.kind === "exit"
+                  ? "rgba(226, 232, 240, 0.9)"
+                  : trade.side === "long"
+                    ? "rgba(34, 197, 94, 0.95)"
+                    : "rgba(239, 68, 68, 0.95)",
+              ),
+              pointBorderColor: "#0b111b",
+            },
+          ]
+        : []),
+      {
+        type: "bar",
+        label: "Volume",
+        data: volumeSeries,
+        parsing: false,
+        yAxisID: "volume",
+        barPercentage: 0.9,
+        categoryPercentage: 1,
+        backgroundColor: points.map((point) =>
+          point.close >= point.open ? BULL_VOLUME_COLOR : BEAR_VOLUME_COLOR,
+        ),
+      },
+    ],
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative h-full touch-none select-none"
+      title="Scroll to zoom, drag to pan, double-click to reset"
+    >
+      <Chart
+        ref={chartRef}
+        type="line"
+        datasetIdKey="intraday"
+        plugins={[
+          spanHighlightPlugin,
+          levelZonePlugin,
+          openingRangePlugin,
+          priceBarsPlugin,
+          sessionSeparatorPlugin,
+          crosshairPlugin,
+        ]}
+        options={options}
+        data={data}
+      />
+      {view && (
+        <button
+          type="button"
+          onClick={() => setView(null)}
+          className="absolute right-2 top-2 rounded-full border border-white/10 bg-slate-900/80 px-3 py-1 text-xs text-slate-200 hover:bg-white/10"
+        >
+          Reset zoom
+        </button>
+      )}
+    </div>
   );
 }
@@ -0,0 +1,486 @@
+"use client";
+
+import { useState } from "react";
+import type { Instrument } from "@/lib/instruments";
+import {
+  type OrderDraft,
+  type OrderType,
+  type PaperAccount,
+  type PaperSettings,
+  type TradeSide,
+  equityCurve,
+  realizedPnl,
+  sizeLots,
+  tradePnl,
+} from "@/lib/paperTrading";
+import { formatIstDateTime, formatIstTime } from "@/lib/sessions";
+import type { InsightConfidence, IntradayPoint } from "@/lib/types";
+
+interface PaperTradingPanelProps {
+  instrument: Instrument;
+  lastBar: IntradayPoint | null;
+  account: PaperAccount;
+  settings: PaperSettings;
+  onSubmitOrder: (order: OrderDraft) => void;
+  onCancelOrder: (id: string) => void;
+  onCloseTrade: (id: string) => void;
+  onReset: () => void;
+  onSettingsChange: (patch: Partial<PaperSettings>) => void;
+}
+
+const fieldStyles =
+  "rounded-lg border border-white/10 bg-slate-900 px-2 py-1 text-xs text-slate-100 focus:border-blue-400 focus:outline-none";
+
+const BLOTTER_LIMIT = 50;
+
+function formatRupees(value: number) {
+  return `${value < 0 ? "−" : ""}₹${Math.abs(value).toLocaleString("en-IN", {
+    maximumFractionDigits: 0,
+  })}`;
+}
+
+function pnlStyles(value: number) {
+  return value >= 0 ? "text-emerald-300" : "text-rose-300";
+}
+
+function EquitySparkline({ values }: { values: number[] }) {
+  if (values.length < 2) return null;
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const spread = max - min || 1;
+  const path = values
+    .map(
+      (value, idx) =>
+        `${((idx / (values.length - 1)) * 200).toFixed(1)},${(
+          44 -
+          ((value - min) / spread) * 40
+        ).toFixed(1)}`,
+    )
+    .join(" ");
+
+  return (
+    <svg
+      viewBox="0 0 200 48"
+      preserveAspectRatio="none"
+      className="mt-3 h-12 w-full"
+      aria-label="Equity curve"
+    >
+      <polyline
+        points={path}
+        fill="none"
+        strokeWidth={1.5}
+        className={
+          values[values.length - 1] >= values[0]
+            ? "stroke-emerald-400"
+            : "stroke-rose-400"
+        }
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+}
+
+export function PaperTradingPanel({
+  instrument,
+  lastBar,
+  account,
+  settings,
+  onSubmitOrder,
+  onCancelOrder,
+  onCloseTrade,
+  onReset,
+  onSettingsChange,
+}: PaperTradingPanelProps) {
+  const [orderType, setOrderType] = useState<OrderType>("market");
+  const [lotsDraft, setLotsDraft] = useState<number | null>(null);
+  const [limitPrice, setLimitPrice] = useState("");
+
+  const mark = lastBar?.close;
+  const realized = realizedPnl(account);
+  const equity = settings.startingCapital + realized;
+  const lots =
+    lotsDraft ??
+    (mark === undefined
+      ? settings.lots
+      : sizeLots(settings, equity, mark, instrument.lotSize));
+  const limitValue = limitPrice === "" ? NaN : Number(limitPrice);
+  const canOrder =
+    lastBar !== null &&
+    lots >= 1 &&
+    (orderType === "market" || (Number.isFinite(limitValue) && limitValue > 0));
+
+  const openTrades = account.trades.filter((trade) => trade.exitTime === null);
+  const closedTrades = account.trades.filter(
+    (trade) => trade.exitTime !== null,
+  );
+  const unrealized = openTrades
+    .filter((trade) => trade.symbol === instrument.symbol)
+    .reduce((sum, trade) => sum + tradePnl(trade, mark), 0);
+  const wins = closedTrades.filter((trade) => tradePnl(trade) > 0).length;
+  const workingOrders = account.orders.filter(
+    (order) => order.status === "working",
+  );
+  const curve = equityCurve(
+    account,
+    settings.startingCapital,
+    mark === undefined ? {} : { [instrument.symbol]: mark },
+    lastBar?.timestamp ?? 0,
+  );
+
+  const submit = (side: TradeSide) => {
+    if (!canOrder) return;
+    onSubmitOrder({
+      side,
+      type: orderType,
+      lots,
+      limitPrice: orderType === "limit" ? limitValue : undefined,
+    });
+    setLimitPrice("");
+  };
+
+  const numberField = (
+    label: string,
+    value: number,
+    onChange: (value: number) => void,
+    step = 0.1,
+  ) => (
+    <label className="flex items-center justify-between gap-2">
+      {label}
+      <input
+        type="number"
+        min={0}
+        step={step}
+        value={value}
+        onChange={(event) => {
+          const next = event.target.valueAsNumber;
+          if (Number.isFinite(next) && next >= 0) onChange(next);
+        }}
+        className={`${fieldStyles} w-24`}
+      />
+    </label>
+  );
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/5 p-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold uppercase tracking-[0.3em] text-slate-400">
+          Paper Trading
+        </h3>
+        <button
+          type="button"
+          onClick={() => onSettingsChange({ autoTrade: !settings.autoTrade })}
+          className={`rounded-full px-3 py-1 text-xs font-medium transition ${
+            settings.autoTrade
+              ? "bg-emerald-500/20 text-emerald-100"
+              : "bg-slate-900/70 text-slate-400 hover:bg-white/10"
+          }`}
+        >
+          {settings.autoTrade ? "⚡ Auto-trading signals" : "Manual only"}
+        </button>
+      </div>
+
+      <div className="mt-4 grid grid-cols-3 gap-2 text-xs">
+        <div className="rounded-2xl border border-white/5 bg-slate-900/70 p-3">
+          <p className="text-slate-500">Equity</p>
+          <p className="mt-1 font-semibold text-white">
+            {formatRupees(equity + unrealized)}
+          </p>
+        </div>
+        <div className="rounded-2xl border border-white/5 bg-slate-900/70 p-3">
+          <p className="text-slate-500">Realized</p>
+          <p className={`mt-1 font-semibold ${pnlStyles(realized)}`}>
+            {formatRupees(realized)}
+          </p>
+        </div>
+        <div className="rounded-2xl border border-white/5 bg-slate-900/70 p-3">
+          <p className="text-slate-500">Open P&amp;L</p>
+          <p className={`mt-1 font-semibold ${pnlStyles(unrealized)}`}>
+            {formatRupees(unrealized)}
+          </p>
+        </div>
+      </div>
+      <EquitySparkline values={curve.map((point) => point.equity)} />
+      {closedTrades.length > 0 && (
+        <p className="mt-1 text-[11px] text-slate-500">
+          {closedTrades.length} closed trade
+          {closedTrades.length === 1 ? "" : "s"} ·{" "}
+          {((wins / closedTrades.length) * 100).toFixed(0)}% winners, net of
+          charges
+        </p>
+      )}
+
+      <div className="mt-4 space-y-2 rounded-2xl border border-white/5 bg-slate-900/70 p-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={orderType}
+            onChange={(event) => setOrderType(event.target.value as OrderType)}
+            className={fieldStyles}
+            aria-label="Order type"
+          >
+            <option value="market">Market</option>
+            <option value="limit">Limit</option>
+          </select>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={lots}
+            onChange={(event) => {
+              const next = event.target.valueAsNumber;
+              setLotsDraft(Number.isFinite(next) ? Math.round(next) : null);
+            }}
+            className={`${fieldStyles} w-16`}
+            aria-label="Lots"
+          />
+          <span className="text-xs text-slate-500">
+            × {instrument.lotSize} = {lots * instrument.lotSize} qty
+          </span>
+          {orderType === "limit" && (
+            <input
+              type="number"
+              value={limitPrice}
+              placeholder={mark?.toFixed(2) ?? "Price"}
+              onChange={(event) => setLimitPrice(event.target.value)}
+              className={`${fieldStyles} w-28`}
+              aria-label="Limit price"
+            />
+          )}
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            disabled={!canOrder}
+            onClick={() => submit("long")}
+            className="flex-1 rounded-lg bg-emerald-500 px-3 py-1 text-xs font-semibold text-white disabled:opacity-40"
+          >
+            Buy
+          </button>
+          <button
+            type="button"
+            disabled={!canOrder}
+            onClick={() => submit("short")}
+            className="flex-1 rounded-lg bg-rose-500 px-3 py-1 text-xs font-semibold text-white disabled:opacity-40"
+          >
+            Sell
+          </button>
+        </div>
+        <p className="text-[11px] text-slate-500">
+          Market orders fill at the last close with {settings.slippageTicks}{" "}
+          ticks of slippage. Limits are day orders.
+        </p>
+      </div>
+
+      <details className="mt-3 rounded-2xl border border-white/5 bg-slate-900/70 p-4 text-xs text-slate-300">
+        <summary className="cursor-pointer text-slate-400">
+          Sizing, brackets &amp; costs
+        </summary>
+        <div className="mt-3 space-y-2">
+          {numberField(
+            "Starting capital (₹)",
+            settings.startingCapital,
+            (value) => onSettingsChange({ startingCapital: value }),
+            10_000,
+          )}
+          <label className="flex items-center justify-between gap-2">
+            Position sizing
+            <select
+              value={settings.sizing}
+              onChange={(event) => {
+                setLotsDraft(null);
+                onSettingsChange({
+                  sizing: event.target.value as PaperSettings["sizing"],
+                });
+              }}
+              className={fieldStyles}
+            >
+              <option value="lots">Fixed lots</option>
+              <option value="risk">Risk % of equity</option>
+            </select>
+          </label>
+          {settings.sizing === "lots"
+            ? numberField(
+                "Lots per trade",
+                settings.lots,
+                (value) => {
+                  setLotsDraft(null);
+                  onSettingsChange({ lots: Math.max(1, Math.round(value)) });
+                },
+                1,
+              )
+            : numberField("Risk per trade (%)", settings.riskPct, (value) => {
+                setLotsDraft(null);
+                onSettingsChange({ riskPct: value });
+              })}
+          {numberField("Stop-loss (%)", settings.stopLossPct, (value) =>
+            onSettingsChange({ stopLossPct: value }),
+          )}
+          {numberField("Target (%)", settings.targetPct, (value) =>
+            onSettingsChange({ targetPct: value }),
+          )}
+          {numberField(
+            "Slippage (ticks)",
+            settings.slippageTicks,
+            (value) => onSettingsChange({ slippageTicks: value }),
+            1,
+          )}
+          {numberField(
+            "Brokerage per order (₹)",
+            settings.costs.brokeragePerOrder,
+            (value) =>
+              onSettingsChange({
+                costs: { ...settings.costs, brokeragePerOrder: value },
+              }),
+            1,
+          )}
+          {numberField(
+            "STT on sells (%)",
+            settings.costs.sttSellPct,
+            (value) =>
+              onSettingsChange({
+                costs: { ...settings.costs, sttSellPct: value },
+              }),
+            0.005,
+          )}
+          <label className="flex items-center justify-between gap-2">
+            Auto-trade signals at
+            <select
+              value={settings.minConfidence}
+              onChange={(event) =>
+                onSettingsChange({
+                  minConfidence: event.target.value as InsightConfidence,
+                })
+              }
+              className={fieldStyles}
+            >
+              <option value="high">High only</option>
+              <option value="medium">Medium +</option>
+              <option value="low">Any confidence</option>
+            </select>
+          </label>
+          <p className="text-[11px] text-slate-500">
+            Exchange, SEBI, stamp duty and GST charges are applied at NSE
+            futures rates.
+          </p>
+        </div>
+      </details>
+
+      <p className="mt-5 text-xs uppercase tracking-[0.3em] text-slate-500">
+        Positions
+      </p>
+      {openTrades.length === 0 && workingOrders.length === 0 ? (
+        <p className="mt-2 text-xs text-slate-500">Flat.</p>
+      ) : (
+        <ul className="mt-2 space-y-1">
+          {openTrades.map((trade) => {
+            const current = trade.symbol === instrument.symbol;
+            return (
+              <li
+                key={trade.id}
+                className="flex items-center justify-between gap-2 rounded-lg bg-slate-900/70 px-3 py-1.5 text-xs"
+              >
+                <span className="text-slate-200">
+                  {trade.side === "long" ? "Long" : "Short"} {trade.lots} ×{" "}
+                  {trade.symbol} @ {trade.entryPrice.toFixed(2)}
+                  <span className="block text-[10px] text-slate-500">
+                    SL {trade.stopLoss?.toFixed(2) ?? "—"} · TP{" "}
+                    {trade.target?.toFixed(2) ?? "—"}
+                  </span>
+                </span>
+                {current && (
+                  <span className={pnlStyles(tradePnl(trade, mark))}>
+                    {formatRupees(tradePnl(trade, mark))}
+                  </span>
+                )}
+                <button
+                  type="button"
+                  disabled={!current || lastBar === null}
+                  title={current ? undefined : "Load this symbol to close it"}
+                  onClick={() => onCloseTrade(trade.id)}
+                  className="text-slate-400 hover:text-rose-300 disabled:opacity-40"
+                >
+                  Close
+                </button>
+              </li>
+            );
+          })}
+          {workingOrders.map((order) => (
+            <li
+              key={order.id}
+              className="flex items-center justify-between gap-2 rounded-lg border border-dashed border-white/10 px-3 py-1.5 text-xs text-slate-400"
+            >
+              <span>
+                {order.side === "long" ? "Buy" : "Sell"} {order.lots} ×{" "}
+                {order.symbol} limit {order.limitPrice?.toFixed(2)}
+              </span>
+              <button
+                type="button"
+                onClick={() => onCancelOrder(order.id)}
+                className="text-slate-500 hover:text-rose-300"
+              >
+                Cancel
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-5 flex items-center justify-between">
+        <p className="text-xs uppercase tracking-[0.3em] text-slate-500">
+          Blotter
+        </p>
+        {account.orders.length > 0 && (
+          <button
+            type="button"
+            onClick={onReset}
+            className="text-xs text-slate-500 hover:text-slate-300"
+          >
+            Reset account
+          </button>
+        )}
+      </div>
+      {account.fills.length === 0 ? (
+        <p className="mt-2 text-xs text-slate-500">No fills yet.</p>
+      ) : (
+        <table className="mt-2 w-full text-left text-[11px]">
+          <thead className="text-slate-500">
+            <tr>
+              <th className="py-1 font-normal">Time</th>
+              <th className="py-1 font-normal">Side</th>
+              <th className="py-1 text-right font-normal">Qty</th>
+              <th className="py-1 text-right font-normal">Price</th>
+              <th className="py-1 text-right font-normal">Costs</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-300">
+            {account.fills
+              .slice(-BLOTTER_LIMIT)
+              .reverse()
+              .map((fill) => (
+                <tr
+                  key={fill.id}
+                  className="border-t border-white/5"
+                  title={`${formatIstDateTime(fill.timestamp)} · ${fill.symbol} · ${fill.reason}`}
+                >
+                  <td className="py-1">{formatIstTime(fill.timestamp)}</td>
+                  <td
+                    className={`py-1 ${
+                      fill.action === "buy"
+                        ? "text-emerald-300"
+                        : "text-rose-300"
+                    }`}
+                  >
+                    {fill.action === "buy" ? "Buy" : "Sell"}
+                    {fill.reason === "entry" ? "" : ` · ${fill.reason}`}
+                  </td>
+                  <td className="py-1 text-right">{fill.quantity}</td>
+                  <td className="py-1 text-right">{fill.price.toFixed(2)}</td>
+                  <td className="py-1 text-right">{fill.costs.toFixed(2)}</td>
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
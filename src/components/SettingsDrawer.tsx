@@ -0,0 +1,360 @@
+"use client";
+
+import { useState } from "react";
+import type { AnalysisPreset } from "@/hooks/useAnalysisSettings";
+import type { AnalysisConfig } from "@/lib/analysisConfig";
+import { type DetectorParamSpec, listDetectors } from "@/lib/detectors";
+
+interface SettingsDrawerProps {
+  open: boolean;
+  config: AnalysisConfig;
+  presets: AnalysisPreset[];
+  onClose: () => void;
+  onChange: (config: AnalysisConfig) => void;
+  onSavePreset: (name: string) => void;
+  onApplyPreset: (name: string) => void;
+  onDeletePreset: (name: string) => void;
+  onReset: () => void;
+}
+
+const inputStyles =
+  "w-24 rounded-lg border border-white/10 bg-slate-900 px-2 py-1 text-right text-xs text-slate-100 focus:border-blue-400 focus:outline-none";
+
+function NumberField({
+  label,
+  value,
+  min,
+  max,
+  step,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="flex items-center justify-between gap-3 text-xs text-slate-300">
+      {label}
+      <input
+        type="number"
+        value={value}
+        min={min}
+        max={max}
+        step={step ?? "any"}
+        onChange={(event) => {
+          const next = event.target.valueAsNumber;
+          if (Number.isFinite(next)) onChange(next);
+        }}
+        className={inputStyles}
+      />
+    </label>
+  );
+}
+
+function ParamField({
+  spec,
+  value,
+  onChange,
+}: {
+  spec: DetectorParamSpec;
+  value: number | boolean;
+  onChange: (value: number | boolean) => void;
+}) {
+  if (spec.type === "boolean") {
+    return (
+      <label className="flex items-center justify-between gap-3 text-xs text-slate-300">
+        {spec.label}
+        <input
+          type="checkbox"
+          checked={Boolean(value)}
+          onChange={(event) => onChange(event.target.checked)}
+          className="h-4 w-4 accent-blue-500"
+        />
+      </label>
+    );
+  }
+
+  return (
+    <NumberField
+      label={spec.label}
+      value={Number(value)}
+      min={spec.min}
+      max={spec.max}
+      step={spec.step}
+      onChange={onChange}
+    />
+  );
+}
+
+export function SettingsDrawer({
+  open,
+  config,
+  presets,
+  onClose,
+  onChange,
+  onSavePreset,
+  onApplyPreset,
+  onDeletePreset,
+  onReset,
+}: SettingsDrawerProps) {
+  const [presetName, setPresetName] = useState("");
+
+  if (!open) return null;
+
+  const updateDetector = (
+    id: string,
+    patch: Partial<AnalysisConfig["detectors"][string]>,
+  ) => {
+    onChange({
+      ...config,
+      detectors: {
+        ...config.detectors,
+        [id]: { ...config.detectors[id], ...patch },
+      },
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-slate-950/60 backdrop-blur-sm">
+      <button
+        type="button"
+        aria-label="Close settings"
+        className="flex-1 cursor-default"
+        onClick={onClose}
+      />
+      <aside className="h-full w-full max-w-sm overflow-y-auto border-l border-white/10 bg-slate-950 p-6 shadow-2xl">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-white">
+            Analysis Settings
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full px-2 py-1 text-sm text-slate-400 hover:bg-white/10"
+          >
+            ✕
+          </button>
+        </div>
+
+        <section className="mt-6 space-y-3">
+          <h3 className="text-xs uppercase tracking-[0.3em] text-slate-500">
+            Presets
+          </h3>
+          <div className="flex gap-2">
+            <input
+              value={presetName}
+              onChange={(event) => setPresetName(event.target.value)}
+              placeholder="e.g. BankNifty 5m"
+              className="flex-1 rounded-lg border border-white/10 bg-slate-900 px-2 py-1 text-xs text-slate-100 focus:border-blue-400 focus:outline-none"
+            />
+            <button
+              type="button"
+              disabled={!presetName.trim()}
+              onClick={() => {
+                onSavePreset(presetName);
+                setPresetName("");
+              }}
+              className="rounded-lg bg-blue-500 px-3 py-1 text-xs font-semibold text-white disabled:opacity-40"
+            >
+              Save
+            </button>
+          </div>
+          {presets.length === 0 ? (
+            <p className="text-xs text-slate-500">No saved presets yet.</p>
+          ) : (
+            <ul className="space-y-1">
+              {presets.map((preset) => (
+                <li
+                  key={preset.name}
+                  className="flex items-center justify-between rounded-lg bg-slate-900/70 px-3 py-1.5 text-xs text-slate-200"
+                >
+                  <button
+                    type="button"
+                    onClick={() => onApplyPreset(preset.name)}
+                    className="text-left hover:text-blue-300"
+                  >
+                    {preset.name}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onDeletePreset(preset.name)}
+                    className="text-slate-500 hover:text-rose-300"
+                  >
+                    Delete
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="mt-8 space-y-3">
+          <h3 className="text-xs uppercase tracking-[0.3em] text-slate-500">
+            Indicators
+          </h3>
+          <NumberField
+            label="Fast EMA length"
+            value={config.emaFast}
+            min={1}
+            step={1}
+            onChange={(emaFast) => onChange({ ...config, emaFast })}
+          />
+          <NumberField
+            label="Slow EMA length"
+            value={config.emaSlow}
+            min={1}
+            step={1}
+            onChange={(emaSlow) => onChange({ ...config, emaSlow })}
+          />
+          <NumberField
+            label="High confidence ≥ (%)"
+            value={config.confidence.highPct}
+            min={0}
+            step={0.1}
+            onChange={(highPct) =>
+              onChange({
+                ...config,
+                confidence: { ...config.confidence, highPct },
+              })
+            }
+          />
+          <NumberField
+            label="Medium confidence ≥ (%)"
+            value={config.confidence.mediumPct}
+            min={0}
+            step={0.1}
+            onChange={(mediumPct) =>
+              onChange({
+                ...config,
+                confidence: { ...config.confidence, mediumPct },
+              })
+            }
+          />
+          <NumberField
+            label="Insights shown"
+            value={config.maxInsights}
+            min={1}
+            step={1}
+            onChange={(maxInsights) => onChange({ ...config, maxInsights })}
+          />
+          <NumberField
+            label="Event-anchored VWAPs"
+            value={config.anchoredVwapEvents}
+            min={0}
+            step={1}
+            onChange={(anchoredVwapEvents) =>
+              onChange({ ...config, anchoredVwapEvents })
+            }
+          />
+        </section>
+
+        <section className="mt-8 space-y-3">
+          <h3 className="text-xs uppercase tracking-[0.3em] text-slate-500">
+            Support / Resistance
+          </h3>
+          <NumberField
+            label="Pivot strength (bars)"
+            value={config.levels.pivotStrength}
+            min={1}
+            step={1}
+            onChange={(pivotStrength) =>
+              onChange({
+                ...config,
+                levels: { ...config.levels, pivotStrength },
+              })
+            }
+          />
+          <NumberField
+            label="Zone tolerance (%)"
+            value={config.levels.tolerancePct}
+            min={0.01}
+            step={0.01}
+            onChange={(tolerancePct) =>
+              onChange({
+                ...config,
+                levels: { ...config.levels, tolerancePct },
+              })
+            }
+          />
+          <NumberField
+            label="Zones drawn"
+            value={config.levels.maxZones}
+            min={1}
+            step={1}
+            onChange={(maxZones) =>
+              onChange({
+                ...config,
+                levels: { ...config.levels, maxZones },
+              })
+            }
+          />
+        </section>
+
+        <section className="mt-8 space-y-5">
+          <h3 className="text-xs uppercase tracking-[0.3em] text-slate-500">
+            Detectors
+          </h3>
+          {listDetectors().map((definition) => {
+            const detectorConfig = config.detectors[definition.id];
+            if (!detectorConfig) return null;
+
+            return (
+              <div
+                key={definition.id}
+                className="space-y-2 rounded-2xl border border-white/10 bg-slate-900/60 p-4"
+              >
+                <label className="flex items-center justify-between gap-3">
+                  <span>
+                    <span className="block text-sm font-semibold text-white">
+                      {definition.label}
+                    </span>
+                    <span className="block text-[11px] text-slate-400">
+                      {definition.description}
+                    </span>
+                  </span>
+                  <input
+                    type="checkbox"
+                    checked={detectorConfig.enabled}
+                    onChange={(event) =>
+                      updateDetector(definition.id, {
+                        enabled: event.target.checked,
+                      })
+                    }
+                    className="h-4 w-4 accent-emerald-500"
+                  />
+                </label>
+                {detectorConfig.enabled &&
+                  definition.params.map((spec) => (
+                    <ParamField
+                      key={spec.key}
+                      spec={spec}
+                      value={detectorConfig.params[spec.key]}
+                      onChange={(value) =>
+                        updateDetector(definition.id, {
+                          params: {
+                            ...detectorConfig.params,
+                            [spec.key]: value,
+                          },
+                        })
+                      }
+                    />
+                  ))}
+              </div>
+            );
+          })}
+        </section>
+
+        <button
+          type="button"
+          onClick={onReset}
+          className="mt-8 w-full rounded-full border border-white/10 px-3 py-2 text-xs font-semibold text-slate-300 hover:bg-white/10"
+        >
+          Reset to defaults
+        </button>
+      </aside>
+    </div>
+  );
+}
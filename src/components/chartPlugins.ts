@@ -0,0 +1,396 @@
+import type { Chart, ChartType, Plugin } from "chart.js";
+import { formatIstTime, istDateLabel } from "@/lib/sessions";
+import type { IntradayPoint, LevelZone } from "@/lib/types";
+
+export type PriceStyle = "candles" | "ohlc" | "line" | "heikin-ashi";
+
+interface SessionSeparatorOptions {
+  timestamps?: number[];
+}
+
+interface PriceBarsOptions {
+  style?: PriceStyle;
+  bars?: IntradayPoint[];
+  scaleId?: string;
+}
+
+export interface OpeningRangeBox {
+  start: number;
+  end: number;
+  sessionEnd: number;
+  high: number;
+  low: number;
+  label: string;
+}
+
+interface OpeningRangeOptions {
+  ranges?: OpeningRangeBox[];
+  scaleId?: string;
+}
+
+interface LevelZoneOptions {
+  zones?: LevelZone[];
+  scaleId?: string;
+}
+
+export interface HighlightSpan {
+  start: number;
+  end: number;
+  label?: string;
+}
+
+interface SpanHighlightOptions {
+  span?: HighlightSpan | null;
+}
+
+interface CrosshairOptions {
+  bars?: IntradayPoint[];
+  scaleId?: string;
+}
+
+declare module "chart.js" {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface PluginOptionsByType<TType extends ChartType> {
+    sessionSeparators?: SessionSeparatorOptions;
+    priceBars?: PriceBarsOptions;
+    levelZones?: LevelZoneOptions;
+    openingRanges?: OpeningRangeOptions;
+    spanHighlight?: SpanHighlightOptions;
+    crosshair?: CrosshairOptions;
+  }
+}
+
+export const BULL_COLOR = "rgba(16, 185, 129, 0.9)";
+export const BEAR_COLOR = "rgba(248, 113, 113, 0.9)";
+export const BULL_VOLUME_COLOR = "rgba(16, 185, 129, 0.45)";
+export const BEAR_VOLUME_COLOR = "rgba(248, 113, 113, 0.45)";
+
+// Sized from the bars inside the visible x range, so candles widen as the
+// chart is zoomed in.
+export function barWidth(chart: Chart, bars: IntradayPoint[]) {
+  const { min, max } = chart.scales.x;
+  const count = bars.filter(
+    (bar) => bar.timestamp * 1000 >= min && bar.timestamp * 1000 <= max,
+  ).length;
+  if (count === 0) return 0;
+  return Math.max(1, Math.min(14, (chart.chartArea.width / count) * 0.65));
+}
+
+export const sessionSeparatorPlugin: Plugin<
+  ChartType,
+  SessionSeparatorOptions
+> = {
+  id: "sessionSeparators",
+  afterDatasetsDraw(chart, _args, options) {
+    const timestamps = options.timestamps ?? [];
+    const { ctx, chartArea, scales } = chart;
+    if (timestamps.length === 0 || !scales.x) return;
+
+    ctx.save();
+    ctx.strokeStyle = "rgba(148, 163, 184, 0.35)";
+    ctx.setLineDash([3, 5]);
+    ctx.lineWidth = 1;
+    timestamps.forEach((timestamp) => {
+      const x = scales.x.getPixelForValue(timestamp * 1000);
+      if (x < chartArea.left || x > chartArea.right) return;
+
+      ctx.beginPath();
+      ctx.moveTo(x, chartArea.top);
+      ctx.lineTo(x, chartArea.bottom);
+      ctx.stroke();
+    });
+    ctx.restore();
+  },
+};
+
+// Draws candles or OHLC bars straight onto the price scale so the EMA and
+// signal datasets keep rendering on top of them.
+export const priceBarsPlugin: Plugin<ChartType, PriceBarsOptions> = {
+  id: "priceBars",
+  beforeDatasetsDraw(chart, _args, options) {
+    const { style = "line", bars = [], scaleId = "y" } = options;
+    const { ctx, chartArea, scales } = chart;
+    const yScale = scales[scaleId];
+    if (style === "line" || bars.length === 0 || !scales.x || !yScale) return;
+
+    const width = barWidth(chart, bars);
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(
+      chartArea.left,
+      yScale.top,
+      chartArea.right - chartArea.left,
+      yScale.bottom - yScale.top,
+    );
+    ctx.clip();
+    ctx.lineWidth = 1;
+
+    bars.forEach((bar) => {
+      const x = scales.x.getPixelForValue(bar.timestamp * 1000);
+      if (x < chartArea.left - width || x > chartArea.right + width) return;
+
+      const color = bar.close >= bar.open ? BULL_COLOR : BEAR_COLOR;
+      const open = yScale.getPixelForValue(bar.open);
+      const close = yScale.getPixelForValue(bar.close);
+      const high = yScale.getPixelForValue(bar.high);
+      const low = yScale.getPixelForValue(bar.low);
+
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.moveTo(x, high);
+      ctx.lineTo(x, low);
+
+      if (style === "ohlc") {
+        ctx.moveTo(x - width / 2, open);
+        ctx.lineTo(x, open);
+        ctx.moveTo(x, close);
+        ctx.lineTo(x + width / 2, close);
+        ctx.stroke();
+        return;
+      }
+
+      ctx.stroke();
+      const top = Math.min(open, close);
+      const height = Math.max(1, Math.abs(close - open));
+      ctx.fillRect(x - width / 2, top, width, height);
+    });
+
+    ctx.restore();
+  },
+};
+
+export const levelZonePlugin: Plugin<ChartType, LevelZoneOptions> = {
+  id: "levelZones",
+  beforeDatasetsDraw(chart, _args, options) {
+    const { zones = [], scaleId = "y" } = options;
+    const { ctx, chartArea } = chart;
+    const yScale = chart.scales[scaleId];
+    if (zones.length === 0 || !yScale) return;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(
+      chartArea.left,
+      yScale.top,
+      chartArea.right - chartArea.left,
+      yScale.bottom - yScale.top,
+    );
+    ctx.clip();
+    ctx.font = "10px sans-serif";
+    ctx.textAlign = "right";
+    ctx.textBaseline = "bottom";
+
+    zones.forEach((zone) => {
+      const top = yScale.getPixelForValue(zone.high);
+      const bottom = yScale.getPixelForValue(zone.low);
+      const support = zone.role === "support";
+
+      ctx.fillStyle = support
+        ? "rgba(16, 185, 129, 0.1)"
+        : "rgba(248, 113, 113, 0.1)";
+      ctx.fillRect(
+        chartArea.left,
+        top,
+        chartArea.right - chartArea.left,
+        Math.max(1, bottom - top),
+      );
+      ctx.fillStyle = support
+        ? "rgba(110, 231, 183, 0.85)"
+        : "rgba(252, 165, 165, 0.85)";
+      ctx.fillText(
+        `${support ? "S" : "R"} ${zone.low.toFixed(0)}–${zone.high.toFixed(
+          0,
+        )} · ${zone.touches}×`,
+        chartArea.right - 4,
+        top - 1,
+      );
+    });
+
+    ctx.restore();
+  },
+};
+
+// Shades each session's opening range and carries its high and low forward as
+// dotted lines until that session closes.
+export const openingRangePlugin: Plugin<ChartType, OpeningRangeOptions> = {
+  id: "openingRanges",
+  beforeDatasetsDraw(chart, _args, options) {
+    const { ranges = [], scaleId = "y" } = options;
+    const { ctx, chartArea, scales } = chart;
+    const yScale = scales[scaleId];
+    if (ranges.length === 0 || !scales.x || !yScale) return;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(
+      chartArea.left,
+      yScale.top,
+      chartArea.right - chartArea.left,
+      yScale.bottom - yScale.top,
+    );
+    ctx.clip();
+    ctx.font = "10px sans-serif";
+    ctx.textAlign = "left";
+    ctx.textBaseline = "bottom";
+
+    ranges.forEach((range) => {
+      const left = scales.x.getPixelForValue(range.start * 1000);
+      const right = scales.x.getPixelForValue(range.end * 1000);
+      const close = scales.x.getPixelForValue(range.sessionEnd * 1000);
+      const top = yScale.getPixelForValue(range.high);
+      const bottom = yScale.getPixelForValue(range.low);
+
+      ctx.fillStyle = "rgba(250, 204, 21, 0.12)";
+      ctx.fillRect(left, top, Math.max(1, right - left), bottom - top);
+
+      ctx.strokeStyle = "rgba(250, 204, 21, 0.5)";
+      ctx.lineWidth = 1;
+      ctx.setLineDash([2, 3]);
+      ctx.beginPath();
+      ctx.moveTo(right, top);
+      ctx.lineTo(close, top);
+      ctx.moveTo(right, bottom);
+      ctx.lineTo(close, bottom);
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      ctx.fillStyle = "rgba(253, 224, 71, 0.85)";
+      ctx.fillText(range.label, left + 2, top - 1);
+    });
+
+    ctx.restore();
+  },
+};
+
+export const spanHighlightPlugin: Plugin<ChartType, SpanHighlightOptions> = {
+  id: "spanHighlight",
+  beforeDatasetsDraw(chart, _args, options) {
+    const { span } = options;
+    const { ctx, chartArea, scales } = chart;
+    if (!span || !scales.x) return;
+
+    const left = Math.max(
+      chartArea.left,
+      scales.x.getPixelForValue(span.start * 1000) - 3,
+    );
+    const right = Math.min(
+      chartArea.right,
+      scales.x.getPixelForValue(span.end * 1000) + 3,
+    );
+    if (right <= left) return;
+
+    ctx.save();
+    ctx.fillStyle = "rgba(56, 189, 248, 0.12)";
+    ctx.fillRect(
+      left,
+      chartArea.top,
+      right - left,
+      chartArea.bottom - chartArea.top,
+    );
+    ctx.strokeStyle = "rgba(56, 189, 248, 0.6)";
+    ctx.lineWidth = 1;
+    ctx.strokeRect(
+      left,
+      chartArea.top,
+      right - left,
+      chartArea.bottom - chartArea.top,
+    );
+    if (span.label) {
+      ctx.font = "10px sans-serif";
+      ctx.fillStyle = "rgba(186, 230, 253, 0.9)";
+      ctx.textAlign = "left";
+      ctx.textBaseline = "top";
+      ctx.fillText(span.label, left + 3, chartArea.top + 26);
+    }
+    ctx.restore();
+  },
+};
+
+const crosshairPositions = new WeakMap<Chart, { x: number; y: number }>();
+
+function nearestBar(bars: IntradayPoint[], timestamp: number) {
+  let low = 0;
+  let high = bars.length - 1;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (bars[mid].timestamp < timestamp) low = mid + 1;
+    else high = mid;
+  }
+  const previous = bars[low - 1];
+  return previous &&
+    timestamp - previous.timestamp < bars[low].timestamp - timestamp
+    ? previous
+    : bars[low];
+}
+
+// Follows the pointer with a crosshair snapped to the nearest bar and prints
+// that bar's OHLCV in the corner of the price pane.
+export const crosshairPlugin: Plugin<ChartType, CrosshairOptions> = {
+  id: "crosshair",
+  afterEvent(chart, args) {
+    const { event, inChartArea } = args;
+    if (event.type === "mouseout" || !inChartArea) {
+      if (crosshairPositions.delete(chart)) args.changed = true;
+      return;
+    }
+    if (event.type === "mousemove" && event.x !== null && event.y !== null) {
+      crosshairPositions.set(chart, { x: event.x, y: event.y });
+      args.changed = true;
+    }
+  },
+  afterDraw(chart, _args, options) {
+    const { bars = [], scaleId = "y" } = options;
+    const position = crosshairPositions.get(chart);
+    const { ctx, chartArea, scales } = chart;
+    const yScale = scales[scaleId];
+    if (!position || bars.length === 0 || !scales.x || !yScale) return;
+
+    const bar = nearestBar(bars, scales.x.getValueForPixel(position.x)! / 1000);
+    const x = scales.x.getPixelForValue(bar.timestamp * 1000);
+
+    ctx.save();
+    ctx.strokeStyle = "rgba(226, 232, 240, 0.35)";
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.moveTo(x, chartArea.top);
+    ctx.lineTo(x, chartArea.bottom);
+    ctx.moveTo(chartArea.left, position.y);
+    ctx.lineTo(chartArea.right, position.y);
+    ctx.stroke();
+    ctx.setLineDash([]);
+    ctx.font = "11px sans-serif";
+    ctx.textBaseline = "middle";
+
+    if (position.y >= yScale.top && position.y <= yScale.bottom) {
+      const price = yScale.getValueForPixel(position.y)!.toFixed(2);
+      const width = ctx.measureText(price).width + 8;
+      ctx.fillStyle = "rgba(30, 41, 59, 0.95)";
+      ctx.fillRect(chartArea.right - width, position.y - 8, width, 16);
+      ctx.fillStyle = "#E2E8F0";
+      ctx.textAlign = "right";
+      ctx.fillText(price, chartArea.right - 4, position.y);
+    }
+
+    const readout = `${istDateLabel(bar.timestamp)} ${formatIstTime(
+      bar.timestamp,
+    )}  O ${bar.open.toFixed(2)}  H ${bar.high.toFixed(2)}  L ${bar.low.toFixed(
+      2,
+    )}  C ${bar.close.toFixed(2)}  V ${Math.round(bar.volume).toLocaleString(
+      "en-IN",
+    )}`;
+    ctx.fillStyle = "rgba(15, 23, 42, 0.85)";
+    ctx.fillRect(
+      chartArea.left + 4,
+      chartArea.top + 4,
+      ctx.measureText(readout).width + 12,
+      18,
+    );
+    ctx.fillStyle = bar.close >= bar.open ? BULL_COLOR : BEAR_COLOR;
+    ctx.textAlign = "left";
+    ctx.fillText(readout, chartArea.left + 10, chartArea.top + 13);
+    ctx.restore();
+  },
+};
@@ -0,0 +1,163 @@
+"use client";
+
+import { useCallback, useEffect } from "react";
+import {
+  type AlertContext,
+  type AlertEvent,
+  type AlertRule,
+  type AlertRuleDraft,
+  evaluateAlertRules,
+  parseAlertRules,
+} from "@/lib/alerts";
+import { createLocalStore } from "@/lib/localStore";
+import { useLocalStore } from "./useLocalStore";
+
+export interface AlertDelivery {
+  notifications: boolean;
+  webhookUrl: string;
+}
+
+const HISTORY_LIMIT = 100;
+// Fired ids outlive the visible history so clearing the list does not make
+// the same bar alert twice.
+const FIRED_LIMIT = 500;
+
+const rulesStore = createLocalStore<AlertRule[]>(
+  "nifty-agent:alert-rules",
+  parseAlertRules,
+  () => [],
+);
+
+const historyStore = createLocalStore<AlertEvent[]>(
+  "nifty-agent:alert-history",
+  (raw) =>
+    Array.isArray(raw)
+      ? raw.filter(
+          (entry): entry is AlertEvent =>
+            typeof entry?.id === "string" && typeof entry?.title === "string",
+        )
+      : [],
+  () => [],
+);
+
+const firedStore = createLocalStore<string[]>(
+  "nifty-agent:alert-fired",
+  (raw) =>
+    Array.isArray(raw)
+      ? raw.filter((entry): entry is string => typeof entry === "string")
+      : [],
+  () => [],
+);
+
+const deliveryStore = createLocalStore<AlertDelivery>(
+  "nifty-agent:alert-delivery",
+  (raw) => {
+    const stored = (raw ?? {}) as Partial<AlertDelivery>;
+    return {
+      notifications: stored.notifications === true,
+      webhookUrl:
+        typeof stored.webhookUrl === "string" ? stored.webhookUrl : "",
+    };
+  },
+  () => ({ notifications: false, webhookUrl: "" }),
+);
+
+function notify(event: AlertEvent) {
+  if (typeof Notification === "undefined") return;
+  if (Notification.permission !== "granted") return;
+  new Notification(event.title, { body: event.message, tag: event.id });
+}
+
+export async function postWebhook(url: string, alert: AlertEvent) {
+  const response = await fetch("/api/alerts/webhook", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ url, alert }),
+  });
+  if (!response.ok) {
+    const detail = await response.json().catch(() => ({}));
+    throw new Error(detail.error ?? "Webhook delivery failed.");
+  }
+}
+
+// Evaluates rules whenever `context` changes; pass null while the feed is
+// loading so stale bars are never judged against a new symbol.
+export function useAlertEvaluation(
+  context: AlertContext | null,
+  rules: AlertRule[],
+) {
+  useEffect(() => {
+    if (!context) return;
+
+    const fired = firedStore.get();
+    const events = evaluateAlertRules(rules, context, new Set(fired));
+    if (events.length === 0) return;
+
+    firedStore.set(
+      [...fired, ...events.map((event) => event.id)].slice(-FIRED_LIMIT),
+    );
+    historyStore.set(
+      [...events, ...historyStore.get()].slice(0, HISTORY_LIMIT),
+    );
+
+    const { notifications, webhookUrl } = deliveryStore.get();
+    events.forEach((event) => {
+      if (notifications) notify(event);
+      if (webhookUrl) {
+        postWebhook(webhookUrl, event).catch(() => {
+          // Delivery is best effort; the alert is already in the history.
+        });
+      }
+    });
+  }, [context, rules]);
+}
+
+export function useAlerts() {
+  const rules = useLocalStore(rulesStore);
+  const history = useLocalStore(historyStore);
+  const delivery = useLocalStore(deliveryStore);
+
+  const addRule = useCallback((rule: AlertRuleDraft) => {
+    const createdAt = Math.floor(Date.now() / 1000);
+    rulesStore.set([
+      ...rulesStore.get(),
+      {
+        ...rule,
+        id: `rule-${Date.now().toString(36)}`,
+        enabled: true,
+        createdAt,
+      } as AlertRule,
+    ]);
+  }, []);
+
+  const toggleRule = useCallback((id: string) => {
+    rulesStore.set(
+      rulesStore
+        .get()
+        .map((rule) =>
+          rule.id === id ? { ...rule, enabled: !rule.enabled } : rule,
+        ),
+    );
+  }, []);
+
+  const removeRule = useCallback((id: string) => {
+    rulesStore.set(rulesStore.get().filter((rule) => rule.id !== id));
+  }, []);
+
+  const clearHistory = useCallback(() => historyStore.set([]), []);
+
+  const setDelivery = useCallback((patch: Partial<AlertDelivery>) => {
+    deliveryStore.set({ ...deliveryStore.get(), ...patch });
+  }, []);
+
+  return {
+    rules,
+    history,
+    delivery,
+    addRule,
+    toggleRule,
+    removeRule,
+    clearHistory,
+    setDelivery,
+  };
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useCallback } from "react";
+import {
+  type AnalysisConfig,
+  type AnalysisConfigInput,
+  defaultAnalysisConfig,
+  resolveAnalysisConfig,
+} from "@/lib/analysisConfig";
+import { createLocalStore } from "@/lib/localStore";
+import { useLocalStore } from "./useLocalStore";
+
+export interface AnalysisPreset {
+  name: string;
+  config: AnalysisConfig;
+}
+
+interface AnalysisSettingsState {
+  active: AnalysisConfig;
+  presets: AnalysisPreset[];
+}
+
+const settingsStore = createLocalStore<AnalysisSettingsState>(
+  "nifty-agent:analysis-settings",
+  (raw) => {
+    const stored = (raw ?? {}) as {
+      active?: AnalysisConfigInput;
+      presets?: Array<{ name?: unknown; config?: AnalysisConfigInput }>;
+    };
+
+    return {
+      active: resolveAnalysisConfig(stored.active),
+      presets: (stored.presets ?? [])
+        .filter((preset) => typeof preset.name === "string")
+        .map((preset) => ({
+          name: preset.name as string,
+          config: resolveAnalysisConfig(preset.config),
+        })),
+    };
+  },
+  () => ({ active: defaultAnalysisConfig(), presets: [] }),
+);
+
+export function useAnalysisSettings() {
+  const { active, presets } = useLocalStore(settingsStore);
+
+  const setConfig = useCallback((input: AnalysisConfigInput) => {
+    const current = settingsStore.get();
+    settingsStore.set({ ...current, active: resolveAnalysisConfig(input) });
+  }, []);
+
+  const savePreset = useCallback((name: string) => {
+    const current = settingsStore.get();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    settingsStore.set({
+      ...current,
+      presets: [
+        ...current.presets.filter((preset) => preset.name !== trimmed),
+        { name: trimmed, config: current.active },
+      ],
+    });
+  }, []);
+
+  const applyPreset = useCallback((name: string) => {
+    const current = settingsStore.get();
+    const preset = current.presets.find((entry) => entry.name === name);
+    if (preset) settingsStore.set({ ...current, active: preset.config });
+  }, []);
+
+  const deletePreset = useCallback((name: string) => {
+    const current = settingsStore.get();
+    settingsStore.set({
+      ...current,
+      presets: current.presets.filter((preset) => preset.name !== name),
+    });
+  }, []);
+
+  const resetConfig = useCallback(() => {
+    const current = settingsStore.get();
+    settingsStore.set({ ...current, active: defaultAnalysisConfig() });
+  }, []);
+
+  return {
+    config: active,
+    presets,
+    setConfig,
+    savePreset,
+    applyPreset,
+    deletePreset,
+    resetConfig,
+  };
+}
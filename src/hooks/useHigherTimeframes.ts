@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type { TimeframeSeries } from "@/lib/confluence";
+import type { IntradayPoint } from "@/lib/types";
+
+interface UseHigherTimeframesOptions {
+  symbol: string;
+  range: string;
+  intervals: string[];
+  reloadTick: number;
+}
+
+interface FetchedTimeframe {
+  key: string;
+  points: IntradayPoint[];
+  error: string | null;
+}
+
+// Higher timeframes move slowly; a bar closes at most every hour, so there is
+// no point polling them as often as the primary feed.
+const REFRESH_MS = 5 * 60_000;
+
+// A single 60m session is too short to seed the slow EMA, so a one-day view
+// still pulls a week of higher-timeframe context.
+const CONTEXT_RANGE: Record<string, string> = { "1d": "5d" };
+
+export function useHigherTimeframes({
+  symbol,
+  range,
+  intervals,
+  reloadTick,
+}: UseHigherTimeframesOptions) {
+  const [fetched, setFetched] = useState<Record<string, FetchedTimeframe>>({});
+  const contextRange = CONTEXT_RANGE[range] ?? range;
+  const requestKey = `${symbol}|${contextRange}`;
+  const intervalsKey = intervals.join(",");
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const wanted = intervalsKey ? intervalsKey.split(",") : [];
+
+    const load = () =>
+      wanted.forEach(async (interval) => {
+        try {
+          const response = await fetch(
+            `/api/intraday?symbol=${encodeURIComponent(
+              symbol,
+            )}&range=${contextRange}&interval=${interval}`,
+            { signal: controller.signal },
+          );
+          if (!response.ok) {
+            const detail = await response.json().catch(() => ({}));
+            throw new Error(detail.error ?? `Unable to load ${interval} bars.`);
+          }
+
+          const payload = (await response.json()) as {
+            points: IntradayPoint[];
+          };
+          if (controller.signal.aborted) return;
+          setFetched((current) => ({
+            ...current,
+            [interval]: {
+              key: requestKey,
+              points: payload.points ?? [],
+              error: null,
+            },
+          }));
+        } catch (err) {
+          if (controller.signal.aborted) return;
+          setFetched((current) => ({
+            ...current,
+            [interval]: {
+              key: requestKey,
+              points: [],
+              error: err instanceof Error ? err.message : "Unknown error.",
+            },
+          }));
+        }
+      });
+
+    load();
+    const timer = setInterval(load, REFRESH_MS);
+
+    return () => {
+      controller.abort();
+      clearInterval(timer);
+    };
+  }, [contextRange, intervalsKey, reloadTick, requestKey, symbol]);
+
+  // Results for a previous symbol or range are ignored rather than cleared, so
+  // switching instruments never aligns one tape against another's trend.
+  return useMemo(() => {
+    const series: TimeframeSeries[] = [];
+    const errors: Record<string, string> = {};
+    (intervalsKey ? intervalsKey.split(",") : []).forEach((interval) => {
+      const entry = fetched[interval];
+      if (!entry || entry.key !== requestKey) return;
+      if (entry.error) errors[interval] = entry.error;
+      else series.push({ interval, points: entry.points });
+    });
+    return { series, errors };
+  }, [fetched, intervalsKey, requestKey]);
+}
@@ -0,0 +1,27 @@
+"use client";
+
+import { useCallback } from "react";
+import { type IndicatorId, isIndicatorId } from "@/lib/indicators";
+import { createLocalStore } from "@/lib/localStore";
+import { useLocalStore } from "./useLocalStore";
+
+const selectionStore = createLocalStore<IndicatorId[]>(
+  "nifty-agent:indicators",
+  (raw) => (Array.isArray(raw) ? raw.filter(isIndicatorId) : []),
+  () => [],
+);
+
+export function useIndicatorSelection() {
+  const selected = useLocalStore(selectionStore);
+
+  const toggle = useCallback((id: IndicatorId) => {
+    const current = selectionStore.get();
+    selectionStore.set(
+      current.includes(id)
+        ? current.filter((entry) => entry !== id)
+        : [...current, id],
+    );
+  }, []);
+
+  return { selected, toggle };
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { DataQualityReport } from "@/lib/dataQuality";
+import type { MarketDataErrorBody } from "@/lib/marketData/errors";
+import type { IntradayPoint } from "@/lib/types";
+
+export type StreamStatus = "idle" | "connecting" | "live" | "reconnecting";
+
+// The server is up but its upstream is not; `stale` means the bars being
+// served are the last good ones rather than fresh.
+export type UpstreamIssue = MarketDataErrorBody & { stale: boolean };
+
+interface UseIntradayStreamOptions {
+  symbol: string;
+  range: string;
+  interval: string;
+  enabled: boolean;
+  onBars: (points: IntradayPoint[], quality?: DataQualityReport) => void;
+  onUpstreamIssue?: (issue: UpstreamIssue | null) => void;
+}
+
+const MAX_BACKOFF_MS = 30_000;
+
+export function useIntradayStream({
+  symbol,
+  range,
+  interval,
+  enabled,
+  onBars,
+  onUpstreamIssue,
+}: UseIntradayStreamOptions): StreamStatus {
+  const [status, setStatus] = useState<StreamStatus>("idle");
+  const onBarsRef = useRef(onBars);
+  const onUpstreamIssueRef = useRef(onUpstreamIssue);
+
+  useEffect(() => {
+    onBarsRef.current = onBars;
+    onUpstreamIssueRef.current = onUpstreamIssue;
+  }, [onBars, onUpstreamIssue]);
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === "undefined") return;
+
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let disposed = false;
+
+    const handleBars = (event: MessageEvent<string>) => {
+      try {
+        const payload = JSON.parse(event.data) as {
+          points?: IntradayPoint[];
+          quality?: DataQualityReport;
+        };
+        if (payload.points?.length) {
+          onBarsRef.current(payload.points, payload.quality);
+        }
+      } catch {
+        // Ignore malformed frames; the next poll will resend the bar.
+      }
+    };
+
+    const handleUpstreamError = (event: MessageEvent<string>) => {
+      try {
+        onUpstreamIssueRef.current?.(JSON.parse(event.data) as UpstreamIssue);
+      } catch {
+        // Ignore malformed frames.
+      }
+    };
+
+    const connect = () => {
+      setStatus(attempts === 0 ? "connecting" : "reconnecting");
+      source = new EventSource(
+        `/api/intraday/stream?symbol=${encodeURIComponent(
+          symbol,
+        )}&range=${range}&interval=${interval}`,
+      );
+
+      source.onopen = () => {
+        attempts = 0;
+        setStatus("live");
+      };
+      source.addEventListener("snapshot", handleBars);
+      source.addEventListener("bars", handleBars);
+      source.addEventListener("upstream-error", handleUpstreamError);
+      source.addEventListener("recovered", () =>
+        onUpstreamIssueRef.current?.(null),
+      );
+      source.onerror = () => {
+        if (disposed || !source) return;
+
+        if (source.readyState === EventSource.CONNECTING) {
+          setStatus("reconnecting");
+          return;
+        }
+
+        source.close();
+        attempts += 1;
+        setStatus("reconnecting");
+        const backoff = Math.min(MAX_BACKOFF_MS, 1_000 * 2 ** attempts);
+        retryTimer = setTimeout(connect, backoff);
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      clearTimeout(retryTimer);
+      source?.close();
+    };
+  }, [enabled, interval, range, symbol]);
+
+  return enabled ? status : "idle";
+}
@@ -0,0 +1,12 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import type { LocalStore } from "@/lib/localStore";
+
+export function useLocalStore<T>(store: LocalStore<T>): T {
+  return useSyncExternalStore(
+    store.subscribe,
+    store.get,
+    store.getServerSnapshot,
+  );
+}
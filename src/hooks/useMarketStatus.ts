@@ -0,0 +1,27 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { type MarketStatus, getMarketStatus } from "@/lib/marketCalendar";
+
+const REFRESH_MS = 15_000;
+
+let cached: { minute: number; status: MarketStatus } | null = null;
+
+function getSnapshot() {
+  const minute = Math.floor(Date.now() / 60_000);
+  if (!cached || cached.minute !== minute) {
+    cached = { minute, status: getMarketStatus() };
+  }
+  return cached.status;
+}
+
+function subscribe(listener: () => void) {
+  const timer = setInterval(listener, REFRESH_MS);
+  return () => clearInterval(timer);
+}
+
+// The server renders without a status so the badge never disagrees with the
+// browser's clock during hydration.
+export function useMarketStatus(): MarketStatus | null {
+  return useSyncExternalStore(subscribe, getSnapshot, () => null);
+}
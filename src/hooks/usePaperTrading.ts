@@ -0,0 +1,96 @@
+"use client";
+
+import { useCallback, useEffect } from "react";
+import type { Instrument } from "@/lib/instruments";
+import { createLocalStore } from "@/lib/localStore";
+import {
+  DEFAULT_PAPER_SETTINGS,
+  type OrderDraft,
+  type PaperAccount,
+  type PaperContext,
+  type PaperSettings,
+  advancePaperAccount,
+  cancelOrder,
+  closeTrade,
+  emptyPaperAccount,
+  parsePaperAccount,
+  parsePaperSettings,
+  placeOrder,
+} from "@/lib/paperTrading";
+import type { IntradayPoint } from "@/lib/types";
+import { useLocalStore } from "./useLocalStore";
+
+const accountStore = createLocalStore<PaperAccount>(
+  "nifty-agent:paper-account",
+  parsePaperAccount,
+  emptyPaperAccount,
+);
+
+const settingsStore = createLocalStore<PaperSettings>(
+  "nifty-agent:paper-settings",
+  parsePaperSettings,
+  () => DEFAULT_PAPER_SETTINGS,
+);
+
+// Simulates the account against `context` whenever it changes; pass null
+// while the feed is loading or being replayed.
+export function usePaperTradingEvaluation(context: PaperContext | null) {
+  useEffect(() => {
+    if (!context) return;
+
+    const account = accountStore.get();
+    const next = advancePaperAccount(account, context, settingsStore.get());
+    if (next !== account) accountStore.set(next);
+  }, [context]);
+}
+
+export function usePaperTrading() {
+  const account = useLocalStore(accountStore);
+  const settings = useLocalStore(settingsStore);
+
+  const submitOrder = useCallback(
+    (order: OrderDraft, instrument: Instrument, bar: IntradayPoint) => {
+      accountStore.set(
+        placeOrder(accountStore.get(), order, {
+          instrument,
+          bar,
+          settings: settingsStore.get(),
+        }),
+      );
+    },
+    [],
+  );
+
+  const cancel = useCallback((id: string) => {
+    accountStore.set(cancelOrder(accountStore.get(), id));
+  }, []);
+
+  const close = useCallback(
+    (id: string, instrument: Instrument, bar: IntradayPoint) => {
+      accountStore.set(
+        closeTrade(accountStore.get(), id, {
+          instrument,
+          bar,
+          settings: settingsStore.get(),
+        }),
+      );
+    },
+    [],
+  );
+
+  const reset = useCallback(() => accountStore.set(emptyPaperAccount()), []);
+
+  const updateSettings = useCallback((patch: Partial<PaperSettings>) => {
+    settingsStore.set({ ...settingsStore.get(), ...patch });
+  }, []);
+
+  return {
+    account,
+    settings,
+    submitOrder,
+    cancelOrder: cancel,
+    closeTrade: close,
+    reset,
+    updateSettings,
+  };
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { DEFAULT_REPLAY_SPEED } from "@/lib/replay";
+
+interface ReplayState {
+  // Index of the last revealed bar, or null when replay is off.
+  cursor: number | null;
+  // Where the replay began; play from the end starts over here.
+  from: number;
+  playing: boolean;
+  speed: number;
+  feedKey: string | null;
+}
+
+// Reveals a loaded series one bar at a time. `length` may grow while a replay
+// runs (the live stream keeps merging bars); a different `feedKey` (another
+// symbol or interval) ends the replay.
+export function useReplay(length: number, feedKey: string | null) {
+  const [state, setState] = useState<ReplayState>({
+    cursor: null,
+    from: 0,
+    playing: false,
+    speed: DEFAULT_REPLAY_SPEED,
+    feedKey,
+  });
+
+  if (state.feedKey !== feedKey) {
+    setState((current) => ({
+      ...current,
+      cursor: null,
+      playing: false,
+      feedKey,
+    }));
+  }
+
+  const last = length - 1;
+  const cursor =
+    state.cursor === null || last < 0 ? null : Math.min(state.cursor, last);
+
+  useEffect(() => {
+    if (!state.playing) return;
+    const timer = setInterval(() => {
+      setState((current) => {
+        if (current.cursor === null || current.cursor >= last) {
+          return { ...current, playing: false };
+        }
+        return { ...current, cursor: current.cursor + 1 };
+      });
+    }, 1000 / state.speed);
+    return () => clearInterval(timer);
+  }, [last, state.playing, state.speed]);
+
+  const start = useCallback((index: number) => {
+    setState((current) => ({
+      ...current,
+      cursor: index,
+      from: index,
+      playing: false,
+    }));
+  }, []);
+
+  const stop = useCallback(() => {
+    setState((current) => ({ ...current, cursor: null, playing: false }));
+  }, []);
+
+  const seek = useCallback(
+    (index: number) => {
+      setState((current) =>
+        current.cursor === null
+          ? current
+          : { ...current, cursor: Math.max(0, Math.min(last, index)) },
+      );
+    },
+    [last],
+  );
+
+  const step = useCallback(
+    (delta: number) => {
+      setState((current) =>
+        current.cursor === null
+          ? current
+          : {
+              ...current,
+              cursor: Math.max(0, Math.min(last, current.cursor + delta)),
+              playing: false,
+            },
+      );
+    },
+    [last],
+  );
+
+  const togglePlaying = useCallback(() => {
+    setState((current) => {
+      if (current.cursor === null) return current;
+      const restart = !current.playing && current.cursor >= last;
+      return {
+        ...current,
+        cursor: restart ? current.from : current.cursor,
+        playing: !current.playing,
+      };
+    });
+  }, [last]);
+
+  const setSpeed = useCallback((speed: number) => {
+    setState((current) => ({ ...current, speed }));
+  }, []);
+
+  return {
+    active: cursor !== null,
+    cursor,
+    playing: state.playing && cursor !== null,
+    speed: state.speed,
+    start,
+    stop,
+    seek,
+    step,
+    togglePlaying,
+    setSpeed,
+  };
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import { useCallback } from "react";
+import { createLocalStore } from "@/lib/localStore";
+import { ALLOWED_INTERVALS } from "@/lib/marketData/params";
+import { useLocalStore } from "./useLocalStore";
+
+const selectionStore = createLocalStore<string[]>(
+  "nifty-agent:timeframes",
+  (raw) =>
+    Array.isArray(raw)
+      ? raw.filter(
+          (entry): entry is string =>
+            typeof entry === "string" && ALLOWED_INTERVALS.has(entry),
+        )
+      : ["15m", "60m"],
+  () => ["15m", "60m"],
+);
+
+export function useTimeframeSelection() {
+  const selected = useLocalStore(selectionStore);
+
+  const toggle = useCallback((interval: string) => {
+    const current = selectionStore.get();
+    selectionStore.set(
+      current.includes(interval)
+        ? current.filter((entry) => entry !== interval)
+        : [...current, interval],
+    );
+  }, []);
+
+  return { selected, toggle };
+}
@@ -0,0 +1,315 @@
+import type { TimeframeSeries } from "./confluence";
+import { ema } from "./indicators";
+import { ALLOWED_INTERVALS } from "./marketData/params";
+import { formatIstTime } from "./sessions";
+import type {
+  AnalysisSummary,
+  InsightConfidence,
+  IntradayPoint,
+} from "./types";
+
+export type CrossDirection = "up" | "down" | "either";
+
+interface AlertRuleBase {
+  id: string;
+  enabled: boolean;
+  // Null applies the rule to whichever instrument is on screen.
+  symbol: string | null;
+  createdAt: number;
+}
+
+export type AlertRule = AlertRuleBase &
+  (
+    | { kind: "price-cross"; level: number; direction: CrossDirection }
+    | {
+        kind: "insight";
+        minConfidence: InsightConfidence;
+        direction: "bullish" | "bearish" | "any";
+      }
+    | {
+        kind: "ema-cross";
+        interval: string;
+        fast: number;
+        slow: number;
+        direction: CrossDirection;
+      }
+    | { kind: "range"; thresholdPct: number }
+  );
+
+export type AlertRuleKind = AlertRule["kind"];
+
+// What the rule editor supplies; ids and bookkeeping are filled in on save.
+export type AlertRuleDraft = AlertRule extends infer Rule
+  ? Rule extends AlertRule
+    ? Omit<Rule, "id" | "enabled" | "createdAt">
+    : never
+  : never;
+
+export interface AlertEvent {
+  // Deduplication key: the same rule firing for the same bar (or session,
+  // or insight) always produces the same id.
+  id: string;
+  ruleId: string;
+  symbol: string;
+  title: string;
+  message: string;
+  barTimestamp: number;
+  firedAt: number;
+}
+
+export interface AlertContext {
+  symbol: string;
+  interval: string;
+  points: IntradayPoint[];
+  analysis: AnalysisSummary;
+  timeframes: TimeframeSeries[];
+}
+
+// Insights are re-derived on every refresh, so only those that finished on
+// the last few bars are treated as news.
+const INSIGHT_FRESH_BARS = 3;
+const TIERS: InsightConfidence[] = ["low", "medium", "high"];
+
+function crossed(
+  before: number,
+  after: number,
+  level: number,
+  direction: CrossDirection,
+) {
+  const up = before < level && after >= level;
+  const down = before > level && after <= level;
+  if (direction === "up") return up;
+  if (direction === "down") return down;
+  return up || down;
+}
+
+export function describeRule(rule: AlertRule) {
+  const scope = rule.symbol ? `${rule.symbol} · ` : "";
+  const arrow = { up: "↑", down: "↓", either: "↕" };
+
+  switch (rule.kind) {
+    case "price-cross":
+      return `${scope}Price crosses ${rule.level.toFixed(2)} ${arrow[rule.direction]}`;
+    case "insight":
+      return `${scope}${rule.minConfidence === "low" ? "Any" : `${rule.minConfidence[0].toUpperCase()}${rule.minConfidence.slice(1)}+`} confidence ${
+        rule.direction === "any" ? "" : `${rule.direction} `
+      }insight`;
+    case "ema-cross":
+      return `${scope}EMA ${rule.fast}/${rule.slow} cross on ${rule.interval} ${arrow[rule.direction]}`;
+    case "range":
+      return `${scope}Session range exceeds ${rule.thresholdPct}%`;
+  }
+}
+
+function isDirection(value: unknown): value is CrossDirection {
+  return value === "up" || value === "down" || value === "either";
+}
+
+function isPositive(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+// Rules come back from localStorage, so anything malformed is dropped rather
+// than trusted.
+export function parseAlertRules(raw: unknown): AlertRule[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((entry): AlertRule[] => {
+    if (!entry || typeof entry !== "object") return [];
+    const rule = entry as Record<string, unknown>;
+    if (typeof rule.id !== "string") return [];
+
+    const base: AlertRuleBase = {
+      id: rule.id,
+      enabled: rule.enabled !== false,
+      symbol: typeof rule.symbol === "string" ? rule.symbol : null,
+      createdAt: typeof rule.createdAt === "number" ? rule.createdAt : 0,
+    };
+
+    switch (rule.kind) {
+      case "price-cross":
+        return isPositive(rule.level) && isDirection(rule.direction)
+          ? [
+              {
+                ...base,
+                kind: "price-cross",
+                level: rule.level,
+                direction: rule.direction,
+              },
+            ]
+          : [];
+      case "insight":
+        return TIERS.includes(rule.minConfidence as InsightConfidence) &&
+          ["bullish", "bearish", "any"].includes(rule.direction as string)
+          ? [
+              {
+                ...base,
+                kind: "insight",
+                minConfidence: rule.minConfidence as InsightConfidence,
+                direction: rule.direction as "bullish" | "bearish" | "any",
+              },
+            ]
+          : [];
+      case "ema-cross":
+        return typeof rule.interval === "string" &&
+          ALLOWED_INTERVALS.has(rule.interval) &&
+          Number.isInteger(rule.fast) &&
+          Number.isInteger(rule.slow) &&
+          isPositive(rule.fast) &&
+          isPositive(rule.slow) &&
+          isDirection(rule.direction)
+          ? [
+              {
+                ...base,
+                kind: "ema-cross",
+                interval: rule.interval,
+                fast: rule.fast,
+                slow: rule.slow,
+                direction: rule.direction,
+              },
+            ]
+          : [];
+      case "range":
+        return isPositive(rule.thresholdPct)
+          ? [{ ...base, kind: "range", thresholdPct: rule.thresholdPct }]
+          : [];
+      default:
+        return [];
+    }
+  });
+}
+
+function evaluateRule(rule: AlertRule, context: AlertContext) {
+  const { symbol, points, analysis } = context;
+  const last = points.length - 1;
+  const bar = points[last];
+  const key = (suffix: string | number) => `${rule.id}|${symbol}|${suffix}`;
+  const fired: Array<Omit<AlertEvent, "ruleId" | "symbol" | "firedAt">> = [];
+
+  switch (rule.kind) {
+    case "price-cross": {
+      if (last < 1) break;
+      if (
+        !crossed(points[last - 1].close, bar.close, rule.level, rule.direction)
+      ) {
+        break;
+      }
+      const upward = bar.close >= rule.level;
+      fired.push({
+        id: key(bar.timestamp),
+        title: `${symbol} crossed ${upward ? "above" : "below"} ${rule.level.toFixed(2)}`,
+        message: `Closed at ${bar.close.toFixed(2)} on the ${formatIstTime(bar.timestamp)} bar.`,
+        barTimestamp: bar.timestamp,
+      });
+      break;
+    }
+    case "insight": {
+      analysis.insights.forEach((insight) => {
+        const index = insight.endIndex ?? insight.startIndex;
+        if (index === undefined || index < last - INSIGHT_FRESH_BARS + 1) {
+          return;
+        }
+        if (
+          TIERS.indexOf(insight.confidence) < TIERS.indexOf(rule.minConfidence)
+        ) {
+          return;
+        }
+        if (rule.direction !== "any" && insight.direction !== rule.direction) {
+          return;
+        }
+
+        const timestamp = points[index].timestamp;
+        fired.push({
+          // Titles can change as an insight is re-ranked (big moves are
+          // numbered by size); the id stays with the insight.
+          id: key(insight.id),
+          title: `${symbol}: ${insight.title} (${insight.confidence})`,
+          message: insight.description,
+          barTimestamp: timestamp,
+        });
+      });
+      break;
+    }
+    case "ema-cross": {
+      const series =
+        rule.interval === context.interval
+          ? points
+          : context.timeframes.find(
+              (timeframe) => timeframe.interval === rule.interval,
+            )?.points;
+      if (!series || series.length < 2) break;
+
+      const closes = series.map((point) => point.close);
+      const fast = ema(closes, rule.fast);
+      const slow = ema(closes, rule.slow);
+      const end = series.length - 1;
+      const [fastBefore, slowBefore, fastNow, slowNow] = [
+        fast[end - 1],
+        slow[end - 1],
+        fast[end],
+        slow[end],
+      ];
+      if (
+        fastBefore === null ||
+        slowBefore === null ||
+        fastNow === null ||
+        slowNow === null ||
+        !crossed(fastBefore - slowBefore, fastNow - slowNow, 0, rule.direction)
+      ) {
+        break;
+      }
+
+      const timestamp = series[end].timestamp;
+      fired.push({
+        id: key(`${rule.interval}|${timestamp}`),
+        title: `${symbol} EMA ${rule.fast}/${rule.slow} ${
+          fastNow >= slowNow ? "bullish" : "bearish"
+        } cross on ${rule.interval}`,
+        message: `Fast EMA ${fastNow.toFixed(2)} vs slow ${slowNow.toFixed(2)} on the ${formatIstTime(timestamp)} bar.`,
+        barTimestamp: timestamp,
+      });
+      break;
+    }
+    case "range": {
+      const session = analysis.sessions[analysis.sessions.length - 1];
+      if (!session || session.rangePct < rule.thresholdPct) break;
+
+      fired.push({
+        id: key(session.date),
+        title: `${symbol} range above ${rule.thresholdPct}%`,
+        message: `Session ${session.date} has spanned ${session.rangePct.toFixed(2)}% (${session.low.toFixed(2)}–${session.high.toFixed(2)}).`,
+        barTimestamp: bar.timestamp,
+      });
+      break;
+    }
+  }
+
+  return fired;
+}
+
+// Evaluates the enabled rules against the latest bars and returns only alerts
+// whose id is not in `seen`.
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  context: AlertContext,
+  seen: ReadonlySet<string>,
+  now = Math.floor(Date.now() / 1000),
+): AlertEvent[] {
+  if (context.points.length === 0) return [];
+
+  return rules
+    .filter(
+      (rule) =>
+        rule.enabled &&
+        (rule.symbol === null || rule.symbol === context.symbol),
+    )
+    .flatMap((rule) =>
+      evaluateRule(rule, context).map((event) => ({
+        ...event,
+        ruleId: rule.id,
+        symbol: context.symbol,
+        firedAt: now,
+      })),
+    )
+    .filter((event) => !seen.has(event.id));
+}
@@ -0,0 +1,321 @@
+import { listDetectors } from "./detectors";
+import type { DetectorParams } from "./detectors";
+import type { LevelOptions } from "./levels";
+import type { InsightConfidence } from "./types";
+
+export interface DetectorConfig {
+  enabled: boolean;
+  params: DetectorParams;
+}
+
+export interface AnalysisConfig {
+  emaFast: number;
+  emaSlow: number;
+  confidence: {
+    highPct: number;
+    mediumPct: number;
+  };
+  maxInsights: number;
+  anchoredVwapEvents: number;
+  levels: LevelOptions;
+  detectors: Record<string, DetectorConfig>;
+}
+
+export type AnalysisConfigInput = Partial<
+  Omit<AnalysisConfig, "confidence" | "levels" | "detectors">
+> & {
+  confidence?: Partial<AnalysisConfig["confidence"]>;
+  levels?: Partial<LevelOptions>;
+  detectors?: Record<
+    string,
+    { enabled?: boolean; params?: Partial<DetectorParams> }
+  >;
+};
+
+export function defaultAnalysisConfig(): AnalysisConfig {
+  return {
+    emaFast: 9,
+    emaSlow: 21,
+    confidence: {
+      highPct: 1.5,
+      mediumPct: 1.0,
+    },
+    maxInsights: 6,
+    anchoredVwapEvents: 2,
+    levels: {
+      pivotStrength: 3,
+      tolerancePct: 0.12,
+      maxZones: 6,
+    },
+    detectors: Object.fromEntries(
+      listDetectors().map((definition) => [
+        definition.id,
+        {
+          enabled: true,
+          params: Object.fromEntries(
+            definition.params.map((spec) => [spec.key, spec.default]),
+          ),
+        },
+      ]),
+    ),
+  };
+}
+
+function positiveInteger(value: unknown, fallback: number) {
+  const numeric = Number(value);
+  return Number.isInteger(numeric) && numeric > 0 ? numeric : fallback;
+}
+
+function finiteNumber(value: unknown, fallback: number) {
+  const numeric = Number(value);
+  return value !== undefined && Number.isFinite(numeric) ? numeric : fallback;
+}
+
+export function resolveAnalysisConfig(
+  input: AnalysisConfigInput = {},
+): AnalysisConfig {
+  const defaults = defaultAnalysisConfig();
+
+  const detectors = Object.fromEntries(
+    listDetectors().map((definition) => {
+      const base = defaults.detectors[definition.id];
+      const override = input.detectors?.[definition.id];
+
+      const params = Object.fromEntries(
+        definition.params.map((spec) => {
+          const raw = override?.params?.[spec.key];
+
+          if (spec.type === "boolean") {
+            return [
+              spec.key,
+              typeof raw === "boolean" ? raw : base.params[spec.key],
+            ];
+          }
+
+          const parsed = finiteNumber(raw, Number(base.params[spec.key]));
+          const value = spec.step === 1 ? Math.round(parsed) : parsed;
+          const clamped = Math.min(
+            spec.max ?? Infinity,
+            Math.max(spec.min ?? -Infinity, value),
+          );
+          return [spec.key, clamped];
+        }),
+      );
+
+      return [
+        definition.id,
+        { enabled: override?.enabled ?? base.enabled, params },
+      ];
+    }),
+  );
+
+  return {
+    emaFast: positiveInteger(input.emaFast, defaults.emaFast),
+    emaSlow: positiveInteger(input.emaSlow, defaults.emaSlow),
+    confidence: {
+      highPct: finiteNumber(
+        input.confidence?.highPct,
+        defaults.confidence.highPct,
+      ),
+      mediumPct: finiteNumber(
+        input.confidence?.mediumPct,
+        defaults.confidence.mediumPct,
+      ),
+    },
+    maxInsights: positiveInteger(input.maxInsights, defaults.maxInsights),
+    anchoredVwapEvents: Math.max(
+      0,
+      Math.round(
+        finiteNumber(input.anchoredVwapEvents, defaults.anchoredVwapEvents),
+      ),
+    ),
+    levels: {
+      pivotStrength: positiveInteger(
+        input.levels?.pivotStrength,
+        defaults.levels.pivotStrength,
+      ),
+      tolerancePct: Math.max(
+        0.01,
+        finiteNumber(input.levels?.tolerancePct, defaults.levels.tolerancePct),
+      ),
+      maxZones: positiveInteger(
+        input.levels?.maxZones,
+        defaults.levels.maxZones,
+      ),
+    },
+    detectors,
+  };
+}
+
+export function createConfidenceScale({
+  highPct,
+  mediumPct,
+}: AnalysisConfig["confidence"]) {
+  return (change: number): InsightConfidence => {
+    const absChange = Math.abs(change);
+
+    if (absChange >= highPct) return "high";
+    if (absChange >= mediumPct) return "medium";
+    return "low";
+  };
+}
+
+export type ValidatedAnalysisConfig =
+  { ok: true; config: AnalysisConfigInput } | { ok: false; errors: string[] };
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Strict counterpart to `resolveAnalysisConfig` for input from outside the
+// app (API bodies, CLI config files): unknown keys and out-of-range values are
+// reported instead of silently falling back to defaults.
+export function validateAnalysisConfigInput(
+  raw: unknown,
+): ValidatedAnalysisConfig {
+  if (raw === undefined || raw === null) return { ok: true, config: {} };
+  if (!isPlainObject(raw)) {
+    return { ok: false, errors: ["config must be an object."] };
+  }
+
+  const errors: string[] = [];
+  const checkNumber = (
+    path: string,
+    value: unknown,
+    { integer = false, min = -Infinity } = {},
+  ) => {
+    if (value === undefined) return;
+    if (
+      typeof value !== "number" ||
+      !Number.isFinite(value) ||
+      (integer && !Number.isInteger(value)) ||
+      value < min
+    ) {
+      errors.push(
+        `${path} must be ${integer ? "an integer" : "a number"}${
+          min > -Infinity ? ` ≥ ${min}` : ""
+        }.`,
+      );
+    }
+  };
+  const checkKeys = (path: string, value: object, allowed: string[]) => {
+    Object.keys(value)
+      .filter((key) => !allowed.includes(key))
+      .forEach((key) => errors.push(`${path}${key} is not a known option.`));
+  };
+
+  checkKeys("config.", raw, [
+    "emaFast",
+    "emaSlow",
+    "confidence",
+    "maxInsights",
+    "anchoredVwapEvents",
+    "levels",
+    "detectors",
+  ]);
+  checkNumber("emaFast", raw.emaFast, { integer: true, min: 1 });
+  checkNumber("emaSlow", raw.emaSlow, { integer: true, min: 1 });
+  checkNumber("maxInsights", raw.maxInsights, { integer: true, min: 1 });
+  checkNumber("anchoredVwapEvents", raw.anchoredVwapEvents, {
+    integer: true,
+    min: 0,
+  });
+
+  if (raw.confidence !== undefined) {
+    if (!isPlainObject(raw.confidence)) {
+      errors.push("confidence must be an object.");
+    } else {
+      checkKeys("confidence.", raw.confidence, ["highPct", "mediumPct"]);
+      checkNumber("confidence.highPct", raw.confidence.highPct, { min: 0 });
+      checkNumber("confidence.mediumPct", raw.confidence.mediumPct, {
+        min: 0,
+      });
+    }
+  }
+
+  if (raw.levels !== undefined) {
+    if (!isPlainObject(raw.levels)) {
+      errors.push("levels must be an object.");
+    } else {
+      checkKeys("levels.", raw.levels, [
+        "pivotStrength",
+        "tolerancePct",
+        "maxZones",
+      ]);
+      checkNumber("levels.pivotStrength", raw.levels.pivotStrength, {
+        integer: true,
+        min: 1,
+      });
+      checkNumber("levels.tolerancePct", raw.levels.tolerancePct, {
+        min: 0.01,
+      });
+      checkNumber("levels.maxZones", raw.levels.maxZones, {
+        integer: true,
+        min: 1,
+      });
+    }
+  }
+
+  if (raw.detectors !== undefined) {
+    if (!isPlainObject(raw.detectors)) {
+      errors.push("detectors must be an object keyed by detector id.");
+    } else {
+      const definitions = new Map(
+        listDetectors().map((definition) => [definition.id, definition]),
+      );
+
+      Object.entries(raw.detectors).forEach(([id, override]) => {
+        const definition = definitions.get(id);
+        const path = `detectors.${id}`;
+        if (!definition) {
+          errors.push(`${path} is not a registered detector.`);
+          return;
+        }
+        if (!isPlainObject(override)) {
+          errors.push(`${path} must be an object.`);
+          return;
+        }
+
+        checkKeys(`${path}.`, override, ["enabled", "params"]);
+        if (
+          override.enabled !== undefined &&
+          typeof override.enabled !== "boolean"
+        ) {
+          errors.push(`${path}.enabled must be a boolean.`);
+        }
+        if (override.params === undefined) return;
+        if (!isPlainObject(override.params)) {
+          errors.push(`${path}.params must be an object.`);
+          return;
+        }
+
+        Object.entries(override.params).forEach(([key, value]) => {
+          const spec = definition.params.find((entry) => entry.key === key);
+          const paramPath = `${path}.params.${key}`;
+          if (!spec) {
+            errors.push(`${paramPath} is not a parameter of ${id}.`);
+          } else if (spec.type === "boolean") {
+            if (typeof value !== "boolean") {
+              errors.push(`${paramPath} must be a boolean.`);
+            }
+          } else if (
+            typeof value !== "number" ||
+            !Number.isFinite(value) ||
+            value < (spec.min ?? -Infinity) ||
+            value > (spec.max ?? Infinity)
+          ) {
+            errors.push(
+              `${paramPath} must be a number between ${spec.min ?? "-∞"} and ${
+                spec.max ?? "∞"
+              }.`,
+            );
+          }
+        });
+      });
+    }
+  }
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, config: raw as AnalysisConfigInput };
+}
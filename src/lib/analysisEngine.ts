@@ -0,0 +1,475 @@
+import {
+  type AnalysisConfig,
+  type AnalysisConfigInput,
+  createConfidenceScale,
+  resolveAnalysisConfig,
+} from "./analysisConfig";
+import {
+  type EngineState,
+  type IncrementalDetector,
+  getDetector,
+} from "./detectors";
+import {
+  type VwapAccumulator,
+  accumulateVwap,
+  computeAnchoredVwap,
+  readVwap,
+} from "./indicators/vwap";
+import {
+  type SwingPivot,
+  buildLevelZones,
+  confirmPivots,
+  describeZone,
+} from "./levels";
+import { measureOpeningRange, normalizeRangeMinutes } from "./openingRange";
+import { istDateLabel, istDayKey } from "./sessions";
+import type {
+  AnalysisSummary,
+  AnchoredVwap,
+  DetectorEvent,
+  InsightConfidence,
+  IntradayPoint,
+  LevelZone,
+  PatternInsight,
+  PriorDayLevels,
+  SessionSummary,
+} from "./types";
+
+export interface AnalysisEngine {
+  readonly length: number;
+  append(point: IntradayPoint): void;
+  reviseLast(point: IntradayPoint): void;
+  update(point: IntradayPoint): void;
+  sync(points: IntradayPoint[]): void;
+  reset(): void;
+  summary(): AnalysisSummary;
+  events(): DetectorEvent[];
+  readonly config: AnalysisConfig;
+}
+
+function nextEMA(close: number, previous: number | undefined, length: number) {
+  if (previous === undefined) return close;
+
+  const k = 2 / (length + 1);
+  return close * k + previous * (1 - k);
+}
+
+function buildNarrative(
+  session: SessionSummary,
+  priorDay: PriorDayLevels | null,
+  vwap: { value: number; volumeProxy: boolean },
+  levels: LevelZone[],
+): AnalysisSummary["narrative"] {
+  if (session.endIndex - session.startIndex < 1) {
+    return "Insufficient data to build a narrative.";
+  }
+
+  const { changePct, rangePct, high: sessionHigh, low: sessionLow } = session;
+
+  const bias =
+    changePct > 0.6 ? "bullish" : changePct < -0.6 ? "bearish" : "balanced";
+
+  const biasText =
+    bias === "bullish"
+      ? "Flow shows a constructive bias with buyers pressing the tape."
+      : bias === "bearish"
+        ? "Supply dominated the session with persistent offer absorption."
+        : "Auction remained rotational with neither side in clear control.";
+
+  const gapText =
+    priorDay && session.gapPct !== null
+      ? ` The session opened ${session.gapPct >= 0 ? "up" : "down"} ${Math.abs(
+          session.gapPct,
+        ).toFixed(2)}% against the prior close of ${priorDay.close.toFixed(
+          2,
+        )}, with the prior day's ${priorDay.high.toFixed(
+          2,
+        )} high and ${priorDay.low.toFixed(2)} low framing the wider auction.`
+      : "";
+
+  const vwapGap = ((session.close - vwap.value) / vwap.value) * 100;
+  const vwapText = ` Price is ${
+    vwapGap >= 0 ? "holding above" : "trading below"
+  } session VWAP at ${vwap.value.toFixed(2)} (${vwapGap >= 0 ? "+" : ""}${vwapGap.toFixed(
+    2,
+  )}%)${
+    vwap.volumeProxy
+      ? ", time-weighted because the feed reports no traded volume"
+      : ""
+  }.`;
+
+  const nearest = (role: LevelZone["role"]) =>
+    levels
+      .filter((zone) => zone.role === role)
+      .sort((a, b) =>
+        role === "resistance" ? a.low - b.low : b.high - a.high,
+      )[0];
+  const resistance = nearest("resistance");
+  const support = nearest("support");
+  const resistanceText = resistance
+    ? `resistance at ${describeZone(resistance)}`
+    : `${sessionHigh.toFixed(2)} (swing high)`;
+  const supportText = support
+    ? `support at ${describeZone(support)}`
+    : `${sessionLow.toFixed(2)} (swing low)`;
+
+  return `${biasText} Spot rallied ${changePct.toFixed(
+    2,
+  )}% across the session while rotating through a ${rangePct.toFixed(
+    2,
+  )}% range.${gapText}${vwapText} Monitor how price behaves near ${resistanceText} and ${supportText} for confirmation of continuation or rejection.`;
+}
+
+function emptySummary(): AnalysisSummary {
+  return {
+    narrative: "No intraday prints were returned from the data source.",
+    stats: {
+      rangePct: 0,
+      avgVolume: 0,
+      sessionChangePct: 0,
+      sessionHigh: 0,
+      sessionLow: 0,
+    },
+    insights: [],
+    signals: [],
+    sessions: [],
+    priorDay: null,
+    emaFast: [],
+    emaSlow: [],
+    vwap: {
+      values: [],
+      upper1: [],
+      lower1: [],
+      upper2: [],
+      lower2: [],
+      volumeProxy: false,
+    },
+    anchoredVwaps: [],
+    levels: [],
+    openingRanges: [],
+    timeframes: [],
+  };
+}
+
+const CONFIDENCE_RANK: Record<InsightConfidence, number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+// Every detector competes for the same `maxInsights` slots: stronger
+// confidence first, then the most recent. The sort is stable, so a detector's
+// own ordering decides ties.
+function rankInsights(insights: PatternInsight[]): PatternInsight[] {
+  const recency = (insight: PatternInsight) =>
+    insight.endIndex ?? insight.startIndex ?? -1;
+
+  return insights
+    .slice()
+    .sort(
+      (a, b) =>
+        CONFIDENCE_RANK[a.confidence] - CONFIDENCE_RANK[b.confidence] ||
+        recency(b) - recency(a),
+    );
+}
+
+function createDetectors(
+  config: AnalysisConfig,
+): Array<{ id: string; detector: IncrementalDetector }> {
+  const context = {
+    toConfidence: createConfidenceScale(config.confidence),
+    levels: config.levels,
+  };
+
+  return Object.entries(config.detectors).flatMap(([id, detectorConfig]) => {
+    const definition = getDetector(id);
+    if (!definition || !detectorConfig.enabled) return [];
+    return [
+      { id, detector: definition.create(detectorConfig.params, context) },
+    ];
+  });
+}
+
+export function createAnalysisEngine(
+  input: AnalysisConfigInput = {},
+): AnalysisEngine {
+  const config = resolveAnalysisConfig(input);
+  const openingRangeMinutes = normalizeRangeMinutes(
+    Number(config.detectors["opening-range"]?.params.rangeMinutes ?? 15),
+  );
+  let state: EngineState;
+  let runningHigh: number[];
+  let runningLow: number[];
+  let runningVolume: number[];
+  let vwapSums: VwapAccumulator[];
+  let pivots: SwingPivot[];
+  let pivotCounts: number[];
+  let detectors: Array<{ id: string; detector: IncrementalDetector }>;
+
+  const reset = () => {
+    state = {
+      points: [],
+      emaFast: [],
+      emaSlow: [],
+      sessionOf: [],
+      sessionStarts: [],
+    };
+    runningHigh = [];
+    runningLow = [];
+    runningVolume = [];
+    vwapSums = [];
+    pivots = [];
+    pivotCounts = [];
+    detectors = createDetectors(config);
+  };
+
+  const push = (point: IntradayPoint) => {
+    const index = state.points.length;
+    const previous = index - 1;
+
+    const opensSession =
+      index === 0 ||
+      istDayKey(state.points[previous].timestamp) !==
+        istDayKey(point.timestamp);
+
+    if (opensSession) state.sessionStarts.push(index);
+    state.sessionOf.push(state.sessionStarts.length - 1);
+    state.points.push(point);
+    state.emaFast.push(
+      nextEMA(point.close, state.emaFast[previous], config.emaFast),
+    );
+    state.emaSlow.push(
+      nextEMA(point.close, state.emaSlow[previous], config.emaSlow),
+    );
+    runningHigh.push(
+      opensSession ? point.high : Math.max(runningHigh[previous], point.high),
+    );
+    runningLow.push(
+      opensSession ? point.low : Math.min(runningLow[previous], point.low),
+    );
+    runningVolume.push(
+      (opensSession ? 0 : runningVolume[previous]) + point.volume,
+    );
+    vwapSums.push(
+      accumulateVwap(opensSession ? null : vwapSums[previous], point),
+    );
+
+    pivots.push(
+      ...confirmPivots(state.points, index, config.levels.pivotStrength),
+    );
+    pivotCounts.push(pivots.length);
+
+    detectors.forEach(({ detector }) => detector.push(state, index));
+  };
+
+  const pop = () => {
+    const index = state.points.length - 1;
+    if (index < 0) return;
+
+    detectors.forEach(({ detector }) => detector.pop(state, index));
+
+    if (state.sessionStarts[state.sessionStarts.length - 1] === index) {
+      state.sessionStarts.pop();
+    }
+    state.sessionOf.pop();
+    state.points.pop();
+    state.emaFast.pop();
+    state.emaSlow.pop();
+    runningHigh.pop();
+    runningLow.pop();
+    runningVolume.pop();
+    vwapSums.pop();
+    pivotCounts.pop();
+    pivots.length = pivotCounts[pivotCounts.length - 1] ?? 0;
+  };
+
+  const summarizeSessions = () => {
+    const { points, sessionStarts } = state;
+    const sessions: SessionSummary[] = [];
+
+    sessionStarts.forEach((startIndex, ordinal) => {
+      const endIndex = (sessionStarts[ordinal + 1] ?? points.length) - 1;
+      const first = points[startIndex];
+      const close = points[endIndex].close;
+      const high = runningHigh[endIndex];
+      const low = runningLow[endIndex];
+      const previous = sessions[ordinal - 1];
+
+      sessions.push({
+        date: istDateLabel(first.timestamp),
+        startIndex,
+        endIndex,
+        open: first.open,
+        high,
+        low,
+        close,
+        volume: runningVolume[endIndex],
+        changePct: ((close - first.close) / first.close) * 100,
+        rangePct: ((high - low) / low) * 100,
+        gapPct: previous
+          ? ((first.open - previous.close) / previous.close) * 100
+          : null,
+      });
+    });
+
+    return sessions;
+  };
+
+  const summarizeVwap = (): AnalysisSummary["vwap"] => {
+    const readings = vwapSums.map(readVwap);
+    const band = (multiple: number) =>
+      readings.map((reading) => reading.vwap + reading.sigma * multiple);
+
+    return {
+      values: readings.map((reading) => reading.vwap),
+      upper1: band(1),
+      lower1: band(-1),
+      upper2: band(2),
+      lower2: band(-2),
+      volumeProxy: readings[readings.length - 1]?.volumeProxy ?? false,
+    };
+  };
+
+  reset();
+
+  const engine: AnalysisEngine = {
+    get length() {
+      return state.points.length;
+    },
+    config,
+    append: push,
+    reviseLast(point) {
+      pop();
+      push(point);
+    },
+    update(point) {
+      const last = state.points[state.points.length - 1];
+
+      if (last && last.timestamp === point.timestamp) {
+        engine.reviseLast(point);
+      } else if (!last || point.timestamp > last.timestamp) {
+        push(point);
+      } else {
+        throw new RangeError(
+          `Bar at ${point.timestamp} is older than the last analysed bar.`,
+        );
+      }
+    },
+    // Cheap reconciliation against a React-style immutable series: unchanged
+    // bars keep their identity, so the first bar that differs marks where the
+    // analysis went stale. Detectors can only undo the newest bar, so a
+    // revision further back replays the series from scratch.
+    sync(points) {
+      const known = state.points;
+      const n = Math.min(known.length, points.length);
+      let first = 0;
+      while (first < n && points[first] === known[first]) first += 1;
+
+      if (points.length < known.length || first < known.length - 1) {
+        reset();
+        points.forEach(push);
+        return;
+      }
+
+      if (first === known.length - 1) {
+        engine.reviseLast(points[first]);
+        first += 1;
+      }
+      for (let i = first; i < points.length; i += 1) push(points[i]);
+    },
+    reset,
+    events() {
+      return detectors
+        .flatMap(({ detector }) => detector.events(state))
+        .sort((a, b) => a.index - b.index);
+    },
+    summary() {
+      const { points, emaFast, emaSlow } = state;
+      if (points.length === 0) return emptySummary();
+
+      const outputs = detectors.map(({ id, detector }) => ({
+        id,
+        ...detector.collect(state),
+      }));
+      const sessions = summarizeSessions();
+      const current = sessions[sessions.length - 1];
+      const prior = sessions[sessions.length - 2];
+      const priorDay = prior
+        ? { high: prior.high, low: prior.low, close: prior.close }
+        : null;
+
+      const vwap = summarizeVwap();
+      const levels = buildLevelZones(pivots, {
+        lastIndex: points.length - 1,
+        lastClose: current.close,
+        tolerancePct: config.levels.tolerancePct,
+        maxZones: config.levels.maxZones,
+        references: priorDay
+          ? [
+              { label: "Prior-day high", price: priorDay.high },
+              { label: "Prior-day low", price: priorDay.low },
+              { label: "Prior-day close", price: priorDay.close },
+            ]
+          : [],
+      });
+      const anchoredVwaps = outputs
+        .filter((output) => output.id === "big-move")
+        .flatMap((output) => output.insights)
+        .filter((insight) => insight.startIndex !== undefined)
+        .slice(0, config.anchoredVwapEvents)
+        .map<AnchoredVwap>((insight) => {
+          const anchorIndex = insight.startIndex as number;
+          return {
+            id: `avwap-${insight.id}`,
+            label: `AVWAP · ${insight.title}`,
+            anchorIndex,
+            anchorTimestamp: points[anchorIndex].timestamp,
+            values: computeAnchoredVwap(points, anchorIndex),
+          };
+        });
+
+      return {
+        narrative: buildNarrative(
+          current,
+          priorDay,
+          {
+            value: vwap.values[vwap.values.length - 1],
+            volumeProxy: vwap.volumeProxy,
+          },
+          levels,
+        ),
+        stats: {
+          rangePct: current.rangePct,
+          avgVolume:
+            current.volume / (current.endIndex - current.startIndex + 1),
+          sessionChangePct: current.changePct,
+          sessionHigh: current.high,
+          sessionLow: current.low,
+        },
+        insights: rankInsights(
+          outputs.flatMap((output) => output.insights),
+        ).slice(0, config.maxInsights),
+        signals: outputs.flatMap((output) => output.signals),
+        sessions,
+        priorDay,
+        emaFast: emaFast.slice(),
+        emaSlow: emaSlow.slice(),
+        vwap,
+        anchoredVwaps,
+        levels,
+        openingRanges: sessions.flatMap((session) => {
+          const range = measureOpeningRange(
+            points,
+            session.startIndex,
+            session.endIndex,
+            openingRangeMinutes,
+          );
+          return range ? [range] : [];
+        }),
+        timeframes: [],
+      };
+    },
+  };
+
+  return engine;
+}
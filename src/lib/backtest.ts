@@ -0,0 +1,184 @@
+import type { AnalysisConfigInput } from "./analysisConfig";
+import { createAnalysisEngine } from "./analysisEngine";
+import { detectorLabel, listDetectors } from "./detectors";
+import { istDayKey } from "./sessions";
+import type { DetectorEvent, InsightConfidence, IntradayPoint } from "./types";
+
+export const DEFAULT_HORIZONS = [1, 3, 6, 12];
+
+export interface BacktestOptions {
+  horizons?: number[];
+  withinSession?: boolean;
+  config?: AnalysisConfigInput;
+}
+
+export interface HorizonStats {
+  horizon: number;
+  samples: number;
+  avgReturnPct: number;
+  hitRate: number;
+}
+
+export interface ScorecardRow {
+  detector: string;
+  label: string;
+  confidence: InsightConfidence | "all";
+  signals: number;
+  horizons: HorizonStats[];
+  avgMfePct: number;
+  avgMaePct: number;
+}
+
+export interface BacktestReport {
+  bars: number;
+  from: number | null;
+  to: number | null;
+  horizons: number[];
+  rows: ScorecardRow[];
+}
+
+interface ScoredEvent {
+  event: DetectorEvent;
+  returns: Array<number | null>;
+  mfePct: number | null;
+  maePct: number | null;
+}
+
+const CONFIDENCE_TIERS: InsightConfidence[] = ["high", "medium", "low"];
+
+function scoreEvent(
+  points: IntradayPoint[],
+  event: DetectorEvent,
+  horizons: number[],
+  withinSession: boolean,
+): ScoredEvent {
+  const sign = event.direction === "bullish" ? 1 : -1;
+  const entry = points[event.index].close;
+  const session = istDayKey(points[event.index].timestamp);
+  const reachable = (index: number) =>
+    index < points.length &&
+    (!withinSession || istDayKey(points[index].timestamp) === session);
+
+  const returns = horizons.map((horizon) => {
+    const exit = event.index + horizon;
+    if (!reachable(exit)) return null;
+    return ((sign * (points[exit].close - entry)) / entry) * 100;
+  });
+
+  const window = Math.max(...horizons);
+  let favourable = -Infinity;
+  let adverse = -Infinity;
+
+  for (let i = event.index + 1; i <= event.index + window; i += 1) {
+    if (!reachable(i)) break;
+
+    const up = ((points[i].high - entry) / entry) * 100;
+    const down = ((entry - points[i].low) / entry) * 100;
+    favourable = Math.max(favourable, sign > 0 ? up : down);
+    adverse = Math.max(adverse, sign > 0 ? down : up);
+  }
+
+  return {
+    event,
+    returns,
+    mfePct: Number.isFinite(favourable) ? favourable : null,
+    maePct: Number.isFinite(adverse) ? adverse : null,
+  };
+}
+
+function mean(values: number[]) {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function buildRow(
+  detector: string,
+  confidence: ScorecardRow["confidence"],
+  scored: ScoredEvent[],
+  horizons: number[],
+): ScorecardRow {
+  return {
+    detector,
+    label: detectorLabel(detector),
+    confidence,
+    signals: scored.length,
+    horizons: horizons.map((horizon, idx) => {
+      const returns = scored
+        .map((entry) => entry.returns[idx])
+        .filter((value): value is number => value !== null);
+
+      return {
+        horizon,
+        samples: returns.length,
+        avgReturnPct: mean(returns),
+        hitRate:
+          returns.length === 0
+            ? 0
+            : returns.filter((value) => value > 0).length / returns.length,
+      };
+    }),
+    avgMfePct: mean(
+      scored
+        .map((entry) => entry.mfePct)
+        .filter((value): value is number => value !== null),
+    ),
+    avgMaePct: mean(
+      scored
+        .map((entry) => entry.maePct)
+        .filter((value): value is number => value !== null),
+    ),
+  };
+}
+
+export function scoreEvents(
+  points: IntradayPoint[],
+  events: DetectorEvent[],
+  { horizons = DEFAULT_HORIZONS, withinSession = true }: BacktestOptions = {},
+): BacktestReport {
+  const scored = events.map((event) =>
+    scoreEvent(points, event, horizons, withinSession),
+  );
+  const detectors = Array.from(
+    new Set([
+      ...listDetectors().map((definition) => definition.id),
+      ...events.map((e) => e.detector),
+    ]),
+  );
+
+  const rows = detectors.flatMap((detector) => {
+    const forDetector = scored.filter(
+      (entry) => entry.event.detector === detector,
+    );
+
+    return [
+      buildRow(detector, "all", forDetector, horizons),
+      ...CONFIDENCE_TIERS.map((tier) =>
+        buildRow(
+          detector,
+          tier,
+          forDetector.filter((entry) => entry.event.confidence === tier),
+          horizons,
+        ),
+      ).filter((row) => row.signals > 0),
+    ];
+  });
+
+  return {
+    bars: points.length,
+    from: points[0]?.timestamp ?? null,
+    to: points[points.length - 1]?.timestamp ?? null,
+    horizons,
+    rows,
+  };
+}
+
+// Replays the series bar by bar so every detector only sees the bars that
+// existed when it fired; forward returns are measured afterwards.
+export function runBacktest(
+  points: IntradayPoint[],
+  options: BacktestOptions = {},
+): BacktestReport {
+  const engine = createAnalysisEngine(options.config);
+  points.forEach((point) => engine.append(point));
+  return scoreEvents(points, engine.events(), options);
+}
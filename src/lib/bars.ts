@@ -0,0 +1,133 @@
+import { NSE_OPEN_SECONDS, istSecondsOfDay } from "./sessions";
+import type { IntradayPoint } from "./types";
+
+export function mergePoints(
+  existing: IntradayPoint[],
+  incoming: IntradayPoint[],
+): IntradayPoint[] {
+  if (incoming.length === 0) return existing;
+
+  const byTimestamp = new Map(
+    existing.map((point) => [point.timestamp, point]),
+  );
+  incoming.forEach((point) => byTimestamp.set(point.timestamp, point));
+
+  return Array.from(byTimestamp.values()).sort(
+    (a, b) => a.timestamp - b.timestamp,
+  );
+}
+
+export function toHeikinAshi(points: IntradayPoint[]): IntradayPoint[] {
+  const bars: IntradayPoint[] = [];
+
+  points.forEach((point, idx) => {
+    const close = (point.open + point.high + point.low + point.close) / 4;
+    const open =
+      idx === 0
+        ? (point.open + point.close) / 2
+        : (bars[idx - 1].open + bars[idx - 1].close) / 2;
+
+    bars.push({
+      timestamp: point.timestamp,
+      open,
+      high: Math.max(point.high, open, close),
+      low: Math.min(point.low, open, close),
+      close,
+      volume: point.volume,
+    });
+  });
+
+  return bars;
+}
+
+// Aggregates finer bars into `intervalSeconds` buckets aligned to the 09:15
+// IST open, the way the exchange (and Yahoo) label hourly and sub-hour bars.
+// Expects sorted input.
+export function resamplePoints(
+  points: IntradayPoint[],
+  intervalSeconds: number,
+): IntradayPoint[] {
+  const bars: IntradayPoint[] = [];
+
+  points.forEach((point) => {
+    const sinceOpen = istSecondsOfDay(point.timestamp) - NSE_OPEN_SECONDS;
+    const bucket =
+      point.timestamp -
+      sinceOpen +
+      Math.floor(sinceOpen / intervalSeconds) * intervalSeconds;
+    const current = bars[bars.length - 1];
+
+    if (current?.timestamp === bucket) {
+      current.high = Math.max(current.high, point.high);
+      current.low = Math.min(current.low, point.low);
+      current.close = point.close;
+      current.volume += point.volume;
+    } else {
+      bars.push({ ...point, timestamp: bucket });
+    }
+  });
+
+  return bars;
+}
+
+export type ValidatedPoints =
+  { ok: true; points: IntradayPoint[] } | { ok: false; errors: string[] };
+
+const BAR_FIELDS = ["timestamp", "open", "high", "low", "close", "volume"];
+const MAX_REPORTED_ERRORS = 10;
+
+// Checks bars supplied from outside the app and returns them sorted by time.
+// Only the first few problems are reported so a bad file does not produce a
+// response as large as itself.
+export function validatePoints(raw: unknown): ValidatedPoints {
+  if (!Array.isArray(raw)) {
+    return { ok: false, errors: ["points must be an array of bars."] };
+  }
+
+  const errors: string[] = [];
+  raw.forEach((value, idx) => {
+    if (errors.length >= MAX_REPORTED_ERRORS) return;
+    if (!value || typeof value !== "object") {
+      errors.push(`points[${idx}] must be an object.`);
+      return;
+    }
+
+    const bar = value as Record<string, unknown>;
+    const invalid = BAR_FIELDS.filter(
+      (key) => typeof bar[key] !== "number" || !Number.isFinite(bar[key]),
+    );
+    if (invalid.length > 0) {
+      errors.push(
+        `points[${idx}] has missing or non-numeric ${invalid.join(", ")}.`,
+      );
+    } else if ((bar.high as number) < (bar.low as number)) {
+      errors.push(`points[${idx}] has high below low.`);
+    }
+  });
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  const points = (raw as IntradayPoint[])
+    .map(({ timestamp, open, high, low, close, volume }) => ({
+      // Millisecond epochs are accepted the same way recordings are.
+      timestamp: timestamp > 1e12 ? Math.floor(timestamp / 1000) : timestamp,
+      open,
+      high,
+      low,
+      close,
+      volume,
+    }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const duplicate = points.findIndex(
+    (point, idx) => idx > 0 && point.timestamp === points[idx - 1].timestamp,
+  );
+  if (duplicate > 0) {
+    return {
+      ok: false,
+      errors: [`Duplicate bar timestamp ${points[duplicate].timestamp}.`],
+    };
+  }
+
+  return { ok: true, points };
+}
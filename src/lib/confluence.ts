@@ -0,0 +1,262 @@
+import type { AnalysisConfig } from "./analysisConfig";
+import { buildLevelZones, findSwingPivots } from "./levels";
+import { getTradingSession, istTimestamp } from "./marketCalendar";
+import { intervalSeconds } from "./marketData/params";
+import { istDateLabel } from "./sessions";
+import type {
+  AnalysisSummary,
+  ConfluenceScore,
+  InsightConfidence,
+  IntradayPoint,
+  TimeframeAlignment,
+  TimeframeBias,
+} from "./types";
+
+export interface TimeframeSeries {
+  interval: string;
+  points: IntradayPoint[];
+}
+
+interface TimeframeReading {
+  trend: TimeframeBias;
+  ema: TimeframeBias;
+  closeVsSlowPct: number;
+}
+
+const WEIGHTS = { trend: 0.5, ema: 0.3, levels: 0.2 };
+// Slope of the slow EMA is measured over this many completed bars.
+const SLOPE_BARS = 3;
+// A zone this close to price (in %) counts as "at the level".
+const LEVEL_PROXIMITY_PCT = 0.2;
+const TIERS: InsightConfidence[] = ["low", "medium", "high"];
+
+// A bar is only usable once it has closed: at the end of its interval or at
+// the session close, whichever comes first.
+export function barCloseTime(timestamp: number, seconds: number) {
+  const session = getTradingSession(istDateLabel(timestamp));
+  const end = timestamp + seconds;
+  if (!session) return end;
+  return Math.min(end, istTimestamp(session.date, session.close));
+}
+
+// For every primary bar, the index of the last higher-timeframe bar that had
+// already closed when the primary bar closed (or -1), so no forming bar leaks
+// into the past.
+export function alignTimeframe(
+  primary: IntradayPoint[],
+  primaryInterval: string,
+  higher: TimeframeSeries,
+) {
+  const primarySeconds = intervalSeconds(primaryInterval);
+  const higherSeconds = intervalSeconds(higher.interval);
+  const closes = higher.points.map((point) =>
+    barCloseTime(point.timestamp, higherSeconds),
+  );
+  const aligned: number[] = [];
+  let cursor = -1;
+
+  primary.forEach((point) => {
+    const asOf = barCloseTime(point.timestamp, primarySeconds);
+    while (cursor + 1 < closes.length && closes[cursor + 1] <= asOf) {
+      cursor += 1;
+    }
+    aligned.push(cursor);
+  });
+
+  return aligned;
+}
+
+function emaSeries(points: IntradayPoint[], length: number) {
+  const k = 2 / (length + 1);
+  const values: number[] = [];
+  points.forEach((point, idx) => {
+    values.push(
+      idx === 0 ? point.close : point.close * k + values[idx - 1] * (1 - k),
+    );
+  });
+  return values;
+}
+
+function readTimeframes(points: IntradayPoint[], config: AnalysisConfig) {
+  const fast = emaSeries(points, config.emaFast);
+  const slow = emaSeries(points, config.emaSlow);
+
+  return points.map<TimeframeReading>((point, idx) => {
+    const slope = slow[idx] - slow[Math.max(0, idx - SLOPE_BARS)];
+    const above = point.close > slow[idx];
+
+    return {
+      trend:
+        above && slope > 0
+          ? "bullish"
+          : !above && slope < 0
+            ? "bearish"
+            : "neutral",
+      ema:
+        fast[idx] > slow[idx]
+          ? "bullish"
+          : fast[idx] < slow[idx]
+            ? "bearish"
+            : "neutral",
+      closeVsSlowPct: ((point.close - slow[idx]) / slow[idx]) * 100,
+    };
+  });
+}
+
+function agreement(bias: TimeframeBias, direction: "bullish" | "bearish") {
+  if (bias === "neutral") return 0;
+  return bias === direction ? 1 : -1;
+}
+
+function mean(values: number[]) {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function shiftConfidence(confidence: InsightConfidence, score: number) {
+  const shift = score >= 0.5 ? 1 : score <= -0.25 ? -1 : 0;
+  const tier = TIERS.indexOf(confidence) + shift;
+  return TIERS[Math.max(0, Math.min(TIERS.length - 1, tier))];
+}
+
+export function applyConfluence(
+  summary: AnalysisSummary,
+  points: IntradayPoint[],
+  {
+    interval,
+    timeframes,
+    config,
+  }: {
+    interval: string;
+    timeframes: TimeframeSeries[];
+    config: AnalysisConfig;
+  },
+): AnalysisSummary {
+  if (points.length === 0) return summary;
+
+  const higher = timeframes
+    .filter(
+      (series) =>
+        intervalSeconds(series.interval) > intervalSeconds(interval) &&
+        series.points.length > 0,
+    )
+    .sort((a, b) => intervalSeconds(a.interval) - intervalSeconds(b.interval))
+    .map((series) => ({
+      series,
+      readings: readTimeframes(series.points, config),
+      aligned: alignTimeframe(points, interval, series),
+    }));
+
+  const pivots = findSwingPivots(points, config.levels.pivotStrength);
+  const indexByTimestamp = new Map(
+    points.map((point, idx) => [point.timestamp, idx]),
+  );
+
+  const score = (
+    index: number,
+    direction: "bullish" | "bearish",
+  ): ConfluenceScore => {
+    const states = higher.flatMap(({ readings, aligned }) =>
+      aligned[index] >= 0 ? [readings[aligned[index]]] : [],
+    );
+
+    // Only zones whose pivots were confirmed by this bar are considered.
+    const zones = buildLevelZones(
+      pivots.filter(
+        (pivot) => pivot.index + config.levels.pivotStrength <= index,
+      ),
+      {
+        lastIndex: index,
+        lastClose: points[index].close,
+        tolerancePct: config.levels.tolerancePct,
+        maxZones: config.levels.maxZones,
+      },
+    );
+    const price = points[index].close;
+    const near = zones.filter((zone) => {
+      const distance =
+        price > zone.high
+          ? price - zone.high
+          : price < zone.low
+            ? zone.low - price
+            : 0;
+      return (distance / price) * 100 <= LEVEL_PROXIMITY_PCT;
+    });
+    // Longs want to lean on support, shorts on resistance.
+    const levels =
+      near.length === 0
+        ? 0
+        : mean(
+            near.map((zone) =>
+              (zone.role === "support") === (direction === "bullish") ? 1 : -1,
+            ),
+          );
+
+    const trend = mean(
+      states.map((state) => agreement(state.trend, direction)),
+    );
+    const ema = mean(states.map((state) => agreement(state.ema, direction)));
+
+    return {
+      score:
+        trend * WEIGHTS.trend + ema * WEIGHTS.ema + levels * WEIGHTS.levels,
+      trend,
+      ema,
+      levels,
+      timeframes: states.length,
+    };
+  };
+
+  const insights = summary.insights.map((insight) => {
+    const index = insight.endIndex ?? insight.startIndex;
+    if (index === undefined || !insight.direction || !points[index]) {
+      return insight;
+    }
+
+    const confluence = score(index, insight.direction);
+    return {
+      ...insight,
+      confidence: shiftConfidence(insight.confidence, confluence.score),
+      confluence,
+    };
+  });
+
+  const signals = summary.signals.map((signal) => {
+    const index = indexByTimestamp.get(signal.timestamp);
+    if (index === undefined) return signal;
+
+    const { score: value } = score(index, signal.direction);
+    return { ...signal, confidence: shiftConfidence(signal.confidence, value) };
+  });
+
+  const last = points.length - 1;
+  const primaryReading = readTimeframes(points, config)[last];
+  const alignment: TimeframeAlignment[] = [
+    {
+      interval,
+      primary: true,
+      asOf: points[last].timestamp,
+      ...primaryReading,
+    },
+    ...higher.map(({ series, readings, aligned }) => {
+      const index = aligned[last];
+      return index < 0
+        ? {
+            interval: series.interval,
+            primary: false,
+            asOf: null,
+            trend: "neutral" as const,
+            ema: "neutral" as const,
+            closeVsSlowPct: 0,
+          }
+        : {
+            interval: series.interval,
+            primary: false,
+            asOf: series.points[index].timestamp,
+            ...readings[index],
+          };
+    }),
+  ];
+
+  return { ...summary, insights, signals, timeframes: alignment };
+}
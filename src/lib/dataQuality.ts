@@ -0,0 +1,351 @@
+import { istDayKey } from "./sessions";
+import type { IntradayPoint } from "./types";
+
+// A bar as a vendor delivers it: any field may be null or garbage.
+export interface RawBar {
+  timestamp: number;
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  close: number | null;
+  volume: number | null;
+}
+
+export type RepairPolicy = "drop" | "ffill" | "clamp";
+
+export const REPAIR_POLICIES: RepairPolicy[] = ["drop", "ffill", "clamp"];
+export const DEFAULT_REPAIR_POLICY: RepairPolicy = "clamp";
+
+export type AnomalyKind =
+  | "missing-value"
+  | "missing-volume"
+  | "duplicate"
+  | "out-of-order"
+  | "inverted-range"
+  | "inconsistent-ohlc"
+  | "spike"
+  | "gap";
+
+export type RepairAction = "dropped" | "filled" | "clamped" | "sorted" | "kept";
+
+export interface DataAnomaly {
+  kind: AnomalyKind;
+  timestamp: number;
+  action: RepairAction;
+  detail?: string;
+}
+
+export interface DataQualityReport {
+  policy: RepairPolicy;
+  inputBars: number;
+  outputBars: number;
+  counts: Record<AnomalyKind, number>;
+  // Bars that were changed, removed or inserted to produce the output.
+  repaired: number;
+  anomalies: DataAnomaly[];
+  truncated: boolean;
+}
+
+// A print this far from the previous close, measured in median bar-to-bar
+// moves (and never less than SPIKE_FLOOR_PCT), that the next bar fully gives
+// back is treated as a bad tick rather than an impulse.
+const SPIKE_MULTIPLE = 25;
+const SPIKE_FLOOR_PCT = 0.5;
+const MAX_LISTED_ANOMALIES = 50;
+
+function isPrice(value: number | null): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+function median(values: number[]) {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function flatBar(timestamp: number, price: number, volume: number) {
+  return {
+    timestamp,
+    open: price,
+    high: price,
+    low: price,
+    close: price,
+    volume,
+  };
+}
+
+function normaliseRange(bar: IntradayPoint): IntradayPoint {
+  return {
+    ...bar,
+    high: Math.max(bar.open, bar.high, bar.low, bar.close),
+    low: Math.min(bar.open, bar.high, bar.low, bar.close),
+  };
+}
+
+export function emptyQualityReport(
+  policy: RepairPolicy,
+  bars = 0,
+): DataQualityReport {
+  return {
+    policy,
+    inputBars: bars,
+    outputBars: bars,
+    counts: {
+      "missing-value": 0,
+      "missing-volume": 0,
+      duplicate: 0,
+      "out-of-order": 0,
+      "inverted-range": 0,
+      "inconsistent-ohlc": 0,
+      spike: 0,
+      gap: 0,
+    },
+    repaired: 0,
+    anomalies: [],
+    truncated: false,
+  };
+}
+
+// Classifies every anomaly in a vendor series and repairs it under `policy`:
+// `drop` removes unusable bars, `ffill` replaces them with the previous close
+// (and fills intra-session gaps with flat bars), `clamp` keeps the bar but
+// pulls its prices back into a consistent, plausible range. Duplicates and
+// out-of-order bars are always resolved, keeping the latest print.
+export function cleanBars(
+  raw: RawBar[],
+  {
+    policy,
+    intervalSeconds,
+  }: { policy: RepairPolicy; intervalSeconds: number },
+): { points: IntradayPoint[]; report: DataQualityReport } {
+  const report = emptyQualityReport(policy, raw.length);
+  const record = (
+    kind: AnomalyKind,
+    timestamp: number,
+    action: RepairAction,
+    detail?: string,
+    count = 1,
+  ) => {
+    report.counts[kind] += count;
+    if (action !== "kept") report.repaired += count;
+    if (report.anomalies.length < MAX_LISTED_ANOMALIES) {
+      report.anomalies.push({ kind, timestamp, action, detail });
+    } else {
+      report.truncated = true;
+    }
+  };
+
+  const timed = raw.filter((bar) => {
+    if (Number.isFinite(bar.timestamp)) return true;
+    record("missing-value", Number.NaN, "dropped", "timestamp");
+    return false;
+  });
+
+  timed.forEach((bar, idx) => {
+    if (idx > 0 && bar.timestamp < timed[idx - 1].timestamp) {
+      record("out-of-order", bar.timestamp, "sorted");
+    }
+  });
+
+  // Stable sort, so among duplicates the last one delivered wins.
+  const sorted = timed
+    .map((bar, order) => ({ bar, order }))
+    .sort((a, b) => a.bar.timestamp - b.bar.timestamp || a.order - b.order)
+    .map(({ bar }) => bar);
+  const unique = sorted.filter((bar, idx) => {
+    if (sorted[idx + 1]?.timestamp !== bar.timestamp) return true;
+    record("duplicate", bar.timestamp, "dropped");
+    return false;
+  });
+
+  const valid: IntradayPoint[] = [];
+  unique.forEach((bar) => {
+    const previous = valid[valid.length - 1];
+    let volume = bar.volume ?? Number.NaN;
+    if (!Number.isFinite(volume) || volume < 0) {
+      record("missing-volume", bar.timestamp, "filled");
+      volume = 0;
+    }
+
+    const missing = (["open", "high", "low", "close"] as const).filter(
+      (key) => !isPrice(bar[key]),
+    );
+    if (missing.length > 0) {
+      const detail = missing.join(", ");
+      if (policy === "drop" || (!isPrice(bar.close) && policy === "clamp")) {
+        record("missing-value", bar.timestamp, "dropped", detail);
+        return;
+      }
+      if (!isPrice(bar.close) && !previous) {
+        record("missing-value", bar.timestamp, "dropped", detail);
+        return;
+      }
+
+      const close = isPrice(bar.close) ? bar.close : previous.close;
+      const open = isPrice(bar.open) ? bar.open : (previous?.close ?? close);
+      const known = [open, close, bar.high, bar.low].filter(isPrice);
+      record(
+        "missing-value",
+        bar.timestamp,
+        policy === "ffill" ? "filled" : "clamped",
+        detail,
+      );
+      valid.push({
+        timestamp: bar.timestamp,
+        open,
+        high: Math.max(...known),
+        low: Math.min(...known),
+        close,
+        volume,
+      });
+      return;
+    }
+
+    const point = { ...(bar as IntradayPoint), volume };
+    const inverted = point.high < point.low;
+    const inconsistent =
+      !inverted &&
+      (Math.max(point.open, point.close) > point.high ||
+        Math.min(point.open, point.close) < point.low);
+    if (!inverted && !inconsistent) {
+      valid.push(point);
+      return;
+    }
+
+    const kind = inverted ? "inverted-range" : "inconsistent-ohlc";
+    if (policy === "drop" || (policy === "ffill" && !previous)) {
+      record(kind, bar.timestamp, "dropped");
+    } else if (policy === "ffill") {
+      record(kind, bar.timestamp, "filled");
+      valid.push(flatBar(bar.timestamp, previous.close, volume));
+    } else {
+      record(kind, bar.timestamp, "clamped");
+      valid.push(normaliseRange(point));
+    }
+  });
+
+  // Spikes are judged bar to bar. Opening gaps and the move across missing
+  // bars are real, so a bar is only compared with the one right before it in
+  // the same session.
+  const adjacent = (earlier: IntradayPoint, later: IntradayPoint) =>
+    istDayKey(earlier.timestamp) === istDayKey(later.timestamp) &&
+    later.timestamp - earlier.timestamp <= intervalSeconds * 1.5;
+
+  const moves = valid
+    .slice(1)
+    .flatMap((bar, idx) =>
+      adjacent(valid[idx], bar)
+        ? [Math.abs(bar.close / valid[idx].close - 1) * 100]
+        : [],
+    )
+    .filter((move) => move > 0);
+  const bandPct = Math.max(SPIKE_FLOOR_PCT, SPIKE_MULTIPLE * median(moves));
+
+  const despiked: IntradayPoint[] = [];
+  valid.forEach((bar, idx) => {
+    const prior = despiked[despiked.length - 1];
+    const reference = prior && adjacent(prior, bar) ? prior.close : undefined;
+    const following = valid[idx + 1];
+    const next = following && adjacent(bar, following) ? following : undefined;
+    const deviation = (price: number) =>
+      reference === undefined ? 0 : Math.abs(price / reference - 1) * 100;
+    const spike =
+      reference !== undefined &&
+      next !== undefined &&
+      Math.max(deviation(bar.high), deviation(bar.low), deviation(bar.close)) >
+        bandPct &&
+      deviation(next.close) <= bandPct;
+
+    if (!spike) {
+      despiked.push(bar);
+      return;
+    }
+
+    const detail = `${Math.max(
+      deviation(bar.high),
+      deviation(bar.low),
+      deviation(bar.close),
+    ).toFixed(2)}% from prior close`;
+    if (policy === "drop") {
+      record("spike", bar.timestamp, "dropped", detail);
+    } else if (policy === "ffill") {
+      record("spike", bar.timestamp, "filled", detail);
+      despiked.push(flatBar(bar.timestamp, reference, bar.volume));
+    } else {
+      record("spike", bar.timestamp, "clamped", detail);
+      // Bound the bar by the prices around it that are not suspect: the
+      // prior close, the next open and its own in-band open/close.
+      const anchors = [
+        reference,
+        next.open,
+        ...[bar.open, bar.close].filter((price) => deviation(price) <= bandPct),
+      ];
+      const low = Math.min(...anchors);
+      const high = Math.max(...anchors);
+      const clamp = (price: number) => Math.min(high, Math.max(low, price));
+      despiked.push(
+        normaliseRange({
+          ...bar,
+          open: clamp(bar.open),
+          high: clamp(bar.high),
+          low: clamp(bar.low),
+          close: clamp(bar.close),
+        }),
+      );
+    }
+  });
+
+  const points: IntradayPoint[] = [];
+  despiked.forEach((bar) => {
+    const previous = points[points.length - 1];
+    if (
+      previous &&
+      istDayKey(previous.timestamp) === istDayKey(bar.timestamp) &&
+      bar.timestamp - previous.timestamp > intervalSeconds * 1.5
+    ) {
+      const missing =
+        Math.round((bar.timestamp - previous.timestamp) / intervalSeconds) - 1;
+      const detail = `${missing} bar${missing === 1 ? "" : "s"} missing`;
+
+      if (policy === "ffill") {
+        record("gap", previous.timestamp, "filled", detail, missing);
+        for (let step = 1; step <= missing; step += 1) {
+          points.push(
+            flatBar(
+              previous.timestamp + step * intervalSeconds,
+              previous.close,
+              0,
+            ),
+          );
+        }
+      } else {
+        record("gap", previous.timestamp, "kept", detail, missing);
+      }
+    }
+    points.push(bar);
+  });
+
+  report.outputBars = points.length;
+  return { points, report };
+}
+
+const ANOMALY_LABELS: Record<AnomalyKind, string> = {
+  "missing-value": "missing values",
+  "missing-volume": "missing volumes",
+  duplicate: "duplicates",
+  "out-of-order": "out-of-order bars",
+  "inverted-range": "inverted ranges",
+  "inconsistent-ohlc": "inconsistent OHLC",
+  spike: "spikes",
+  gap: "missing bars",
+};
+
+export function describeQuality(report: DataQualityReport) {
+  const parts = (Object.keys(report.counts) as AnomalyKind[])
+    .filter((kind) => report.counts[kind] > 0)
+    .map((kind) => `${report.counts[kind]} ${ANOMALY_LABELS[kind]}`);
+  return parts.length > 0
+    ? `${parts.join(", ")} (policy: ${report.policy})`
+    : "No anomalies";
+}
@@ -0,0 +1,131 @@
+import { formatIstTime } from "../sessions";
+import type { PatternInsight, SignalMarker } from "../types";
+import { CROSS_SESSIONS_PARAM, numberParam, spanAllowed } from "./helpers";
+import type { DetectorDefinition } from "./types";
+
+export const bigMoveDetector: DetectorDefinition = {
+  id: "big-move",
+  label: "Momentum impulse",
+  description:
+    "Flags closes that travel further than a threshold in a few bars.",
+  params: [
+    {
+      key: "lookback",
+      label: "Lookback (bars)",
+      type: "number",
+      default: 3,
+      min: 1,
+      max: 30,
+      step: 1,
+    },
+    {
+      key: "thresholdPct",
+      label: "Threshold (%)",
+      type: "number",
+      default: 0.6,
+      min: 0.05,
+      max: 10,
+      step: 0.05,
+    },
+    {
+      key: "maxInsights",
+      label: "Insights shown",
+      type: "number",
+      default: 4,
+      min: 0,
+      max: 10,
+      step: 1,
+    },
+    CROSS_SESSIONS_PARAM,
+  ],
+  create(params, { toConfidence }) {
+    const lookback = numberParam(params, "lookback");
+    const threshold = numberParam(params, "thresholdPct");
+    const maxInsights = numberParam(params, "maxInsights");
+    const crossesSessions = Boolean(params.crossSessions);
+    const moves: Array<{
+      index: number;
+      changePct: number;
+      direction: "bullish" | "bearish";
+      spanStart: number;
+    }> = [];
+
+    return {
+      push(state, index) {
+        if (index < lookback) return;
+        if (!spanAllowed(state, crossesSessions, index - lookback, index)) {
+          return;
+        }
+
+        const { points } = state;
+        const baseClose = points[index - lookback].close;
+        const latestClose = points[index].close;
+        const changePct = ((latestClose - baseClose) / baseClose) * 100;
+
+        if (Math.abs(changePct) >= threshold) {
+          moves.push({
+            index,
+            changePct,
+            direction: changePct >= 0 ? "bullish" : "bearish",
+            spanStart: index - lookback,
+          });
+        }
+      },
+      pop(_state, index) {
+        if (moves[moves.length - 1]?.index === index) moves.pop();
+      },
+      collect({ points }) {
+        const topMoves = [...moves]
+          .sort((a, b) => Math.abs(b.changePct) - Math.abs(a.changePct))
+          .slice(0, maxInsights);
+
+        const insights: PatternInsight[] = topMoves.map((move, idx) => {
+          const point = points[move.index];
+          const startPoint = points[move.spanStart];
+          const directionLabel =
+            move.direction === "bullish" ? "Bullish" : "Bearish";
+          const label = `${directionLabel} impulse #${idx + 1}`;
+
+          return {
+            id: `big-move-${move.index}`,
+            title: label,
+            description: `${directionLabel} burst of ${move.changePct.toFixed(
+              2,
+            )}% between ${formatIstTime(startPoint.timestamp)} and ${formatIstTime(point.timestamp)} indicates aggressive ${
+              move.direction === "bullish" ? "buying" : "selling"
+            } pressure.`,
+            confidence: toConfidence(move.changePct),
+            startIndex: move.spanStart,
+            endIndex: move.index,
+            changePct: move.changePct,
+            direction: move.direction,
+          };
+        });
+
+        const signals: SignalMarker[] = topMoves.map((move) => ({
+          timestamp: points[move.index].timestamp,
+          price: points[move.index].close,
+          label:
+            move.direction === "bullish"
+              ? "Momentum Upswing"
+              : "Momentum Flush",
+          confidence: toConfidence(move.changePct),
+          direction: move.direction,
+          insightId: `big-move-${move.index}`,
+        }));
+
+        return { insights, signals };
+      },
+      events({ points }) {
+        return moves.map((move) => ({
+          detector: "big-move",
+          index: move.index,
+          timestamp: points[move.index].timestamp,
+          price: points[move.index].close,
+          direction: move.direction,
+          confidence: toConfidence(move.changePct),
+        }));
+      },
+    };
+  },
+};
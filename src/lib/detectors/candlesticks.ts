@@ -0,0 +1,420 @@
+import { formatIstTime } from "../sessions";
+import type {
+  InsightConfidence,
+  IntradayPoint,
+  PatternInsight,
+  SignalMarker,
+} from "../types";
+import { CROSS_SESSIONS_PARAM, numberParam, spanAllowed } from "./helpers";
+import type {
+  DetectorDefinition,
+  DetectorParamSpec,
+  EngineState,
+} from "./types";
+
+type Direction = "bullish" | "bearish";
+
+interface CandleMatch {
+  name: string;
+  bars: number;
+  direction: Direction;
+}
+
+// Matchers only look at bars up to `index`; the trend they are judged against
+// is measured separately so the same shape can be graded in context.
+// `trendBefore(start)` is the move over the trend lookback ending on the bar
+// before `start`, for shapes whose direction depends on what preceded them.
+type CandleMatcher = (
+  points: IntradayPoint[],
+  index: number,
+  trendBefore: (start: number) => number,
+) => CandleMatch | null;
+
+interface CandlestickPattern {
+  id: string;
+  label: string;
+  description: string;
+  // Reversal shapes want a prior move against them; continuation shapes want
+  // one in their favour.
+  context: "reversal" | "continuation";
+  match: CandleMatcher;
+}
+
+interface PatternHit extends CandleMatch {
+  index: number;
+  trendPct: number;
+  relativeRange: number;
+  confidence: InsightConfidence;
+  score: number;
+}
+
+const body = (bar: IntradayPoint) => Math.abs(bar.close - bar.open);
+const range = (bar: IntradayPoint) => bar.high - bar.low;
+const upperWick = (bar: IntradayPoint) =>
+  bar.high - Math.max(bar.open, bar.close);
+const lowerWick = (bar: IntradayPoint) =>
+  Math.min(bar.open, bar.close) - bar.low;
+const isBull = (bar: IntradayPoint) => bar.close > bar.open;
+const isBear = (bar: IntradayPoint) => bar.close < bar.open;
+
+const CANDLE_PARAMS: DetectorParamSpec[] = [
+  {
+    key: "trendLookback",
+    label: "Trend lookback (bars)",
+    type: "number",
+    default: 10,
+    min: 2,
+    max: 60,
+    step: 1,
+  },
+  {
+    key: "minTrendPct",
+    label: "Trend threshold (%)",
+    type: "number",
+    default: 0.3,
+    min: 0.05,
+    max: 5,
+    step: 0.05,
+  },
+  {
+    key: "rangeLookback",
+    label: "Range lookback (bars)",
+    type: "number",
+    default: 14,
+    min: 2,
+    max: 60,
+    step: 1,
+  },
+  {
+    key: "maxInsights",
+    label: "Insights shown",
+    type: "number",
+    default: 3,
+    min: 0,
+    max: 10,
+    step: 1,
+  },
+  CROSS_SESSIONS_PARAM,
+];
+
+function gradePattern(
+  supportivePct: number,
+  relativeRange: number,
+  minTrendPct: number,
+): InsightConfidence {
+  if (supportivePct >= minTrendPct && relativeRange >= 1.2) return "high";
+  if (supportivePct >= minTrendPct / 2 && relativeRange >= 0.8) {
+    return "medium";
+  }
+  return "low";
+}
+
+function windowStart(
+  state: EngineState,
+  crossesSessions: boolean,
+  end: number,
+  length: number,
+) {
+  const start = Math.max(0, end - length);
+  if (crossesSessions) return start;
+  return Math.max(start, state.sessionStarts[state.sessionOf[end]]);
+}
+
+function createCandlestickDetector(
+  pattern: CandlestickPattern,
+): DetectorDefinition {
+  return {
+    id: pattern.id,
+    label: pattern.label,
+    description: pattern.description,
+    params: CANDLE_PARAMS,
+    create(params) {
+      const trendLookback = numberParam(params, "trendLookback");
+      const minTrendPct = numberParam(params, "minTrendPct");
+      const rangeLookback = numberParam(params, "rangeLookback");
+      const maxInsights = numberParam(params, "maxInsights");
+      const crossesSessions = Boolean(params.crossSessions);
+      const hits: PatternHit[] = [];
+
+      return {
+        push(state, index) {
+          const { points } = state;
+          // The pattern's own bars never count towards its trend or range
+          // context, otherwise a long engulfing candle would vouch for itself.
+          const trendBefore = (start: number) => {
+            const contextEnd = start - 1;
+            if (contextEnd < 0) return 0;
+            const trendFrom = windowStart(
+              state,
+              crossesSessions,
+              contextEnd,
+              trendLookback,
+            );
+            return trendFrom < contextEnd
+              ? ((points[contextEnd].close - points[trendFrom].close) /
+                  points[trendFrom].close) *
+                  100
+              : 0;
+          };
+
+          const match = pattern.match(points, index, trendBefore);
+          if (!match) return;
+
+          const start = index - match.bars + 1;
+          if (start < 1 || !spanAllowed(state, crossesSessions, start, index)) {
+            return;
+          }
+          const trendPct = trendBefore(start);
+
+          const rangeFrom = windowStart(
+            state,
+            crossesSessions,
+            start - 1,
+            rangeLookback,
+          );
+          let rangeSum = 0;
+          for (let i = rangeFrom; i < start; i += 1) {
+            rangeSum += range(points[i]);
+          }
+          const averageRange =
+            start > rangeFrom ? rangeSum / (start - rangeFrom) : 0;
+
+          let high = -Infinity;
+          let low = Infinity;
+          for (let i = start; i <= index; i += 1) {
+            high = Math.max(high, points[i].high);
+            low = Math.min(low, points[i].low);
+          }
+          const relativeRange =
+            averageRange > 0 ? (high - low) / averageRange : 0;
+
+          const sign = match.direction === "bullish" ? 1 : -1;
+          const supportivePct =
+            pattern.context === "reversal" ? -sign * trendPct : sign * trendPct;
+
+          hits.push({
+            ...match,
+            index,
+            trendPct,
+            relativeRange,
+            confidence: gradePattern(supportivePct, relativeRange, minTrendPct),
+            score: Math.max(0, supportivePct) * relativeRange,
+          });
+        },
+        pop(_state, index) {
+          if (hits[hits.length - 1]?.index === index) hits.pop();
+        },
+        collect({ points }) {
+          const ranked = [...hits]
+            .sort((a, b) => b.score - a.score || b.index - a.index)
+            .slice(0, maxInsights);
+
+          const insights: PatternInsight[] = ranked.map((hit) => {
+            const startIndex = hit.index - hit.bars + 1;
+            const trendText =
+              Math.abs(hit.trendPct) < minTrendPct / 2
+                ? "inside a flat tape"
+                : `after a ${hit.trendPct >= 0 ? "+" : ""}${hit.trendPct.toFixed(
+                    2,
+                  )}% ${hit.trendPct >= 0 ? "advance" : "slide"}`;
+
+            return {
+              id: `${pattern.id}-${hit.index}`,
+              title: hit.name,
+              description: `${hit.name} at ${formatIstTime(points[hit.index].timestamp)} ${trendText}; the pattern spans ${hit.relativeRange.toFixed(
+                1,
+              )}× the recent average bar range.`,
+              confidence: hit.confidence,
+              startIndex,
+              endIndex: hit.index,
+              changePct: hit.trendPct,
+              direction: hit.direction,
+            };
+          });
+
+          const signals: SignalMarker[] = ranked.map((hit) => ({
+            timestamp: points[hit.index].timestamp,
+            price: points[hit.index].close,
+            label: hit.name,
+            confidence: hit.confidence,
+            direction: hit.direction,
+            insightId: `${pattern.id}-${hit.index}`,
+          }));
+
+          return { insights, signals };
+        },
+        events({ points }) {
+          return hits.map((hit) => ({
+            detector: pattern.id,
+            index: hit.index,
+            timestamp: points[hit.index].timestamp,
+            price: points[hit.index].close,
+            direction: hit.direction,
+            confidence: hit.confidence,
+          }));
+        },
+      };
+    },
+  };
+}
+
+const engulfing: CandleMatcher = (points, index) => {
+  const previous = points[index - 1];
+  const current = points[index];
+  if (!previous || body(current) <= body(previous)) return null;
+
+  if (
+    isBear(previous) &&
+    isBull(current) &&
+    current.open <= previous.close &&
+    current.close >= previous.open
+  ) {
+    return { name: "Bullish engulfing", bars: 2, direction: "bullish" };
+  }
+  if (
+    isBull(previous) &&
+    isBear(current) &&
+    current.open >= previous.close &&
+    current.close <= previous.open
+  ) {
+    return { name: "Bearish engulfing", bars: 2, direction: "bearish" };
+  }
+  return null;
+};
+
+const hammer: CandleMatcher = (points, index) => {
+  const bar = points[index];
+  const size = body(bar);
+  if (range(bar) === 0) return null;
+
+  const small = Math.max(size, range(bar) * 0.05);
+  if (lowerWick(bar) >= 2 * small && upperWick(bar) <= small * 0.5) {
+    return { name: "Hammer", bars: 1, direction: "bullish" };
+  }
+  if (upperWick(bar) >= 2 * small && lowerWick(bar) <= small * 0.5) {
+    return { name: "Shooting star", bars: 1, direction: "bearish" };
+  }
+  return null;
+};
+
+const doji: CandleMatcher = (points, index, trendBefore) => {
+  const bar = points[index];
+  if (range(bar) === 0 || body(bar) > range(bar) * 0.1) return null;
+
+  // A doji has no direction of its own; it only questions the prior move.
+  return trendBefore(index) >= 0
+    ? { name: "Doji after strength", bars: 1, direction: "bearish" }
+    : { name: "Doji after weakness", bars: 1, direction: "bullish" };
+};
+
+const insideOutside: CandleMatcher = (points, index, trendBefore) => {
+  const previous = points[index - 1];
+  const current = points[index];
+  if (!previous) return null;
+
+  if (current.high < previous.high && current.low > previous.low) {
+    return {
+      name: "Inside bar",
+      bars: 2,
+      direction: trendBefore(index - 1) >= 0 ? "bullish" : "bearish",
+    };
+  }
+  if (current.high > previous.high && current.low < previous.low) {
+    if (isBull(current)) {
+      return { name: "Bullish outside bar", bars: 2, direction: "bullish" };
+    }
+    if (isBear(current)) {
+      return { name: "Bearish outside bar", bars: 2, direction: "bearish" };
+    }
+  }
+  return null;
+};
+
+const star: CandleMatcher = (points, index) => {
+  if (index < 2) return null;
+  const [first, middle, last] = points.slice(index - 2, index + 1);
+
+  const firstBody = body(first);
+  if (firstBody === 0 || body(middle) > firstBody * 0.3) return null;
+  const midpoint = (first.open + first.close) / 2;
+
+  if (isBear(first) && isBull(last) && last.close > midpoint) {
+    return { name: "Morning star", bars: 3, direction: "bullish" };
+  }
+  if (isBull(first) && isBear(last) && last.close < midpoint) {
+    return { name: "Evening star", bars: 3, direction: "bearish" };
+  }
+  return null;
+};
+
+const threeBarReversal: CandleMatcher = (points, index) => {
+  if (index < 2) return null;
+  const [first, middle, last] = points.slice(index - 2, index + 1);
+
+  if (
+    middle.low < first.low &&
+    middle.low < last.low &&
+    last.close > middle.high
+  ) {
+    return { name: "Three-bar reversal up", bars: 3, direction: "bullish" };
+  }
+  if (
+    middle.high > first.high &&
+    middle.high > last.high &&
+    last.close < middle.low
+  ) {
+    return { name: "Three-bar reversal down", bars: 3, direction: "bearish" };
+  }
+  return null;
+};
+
+const PATTERNS: CandlestickPattern[] = [
+  {
+    id: "engulfing",
+    label: "Engulfing",
+    description: "A candle whose body swallows the previous opposite body.",
+    context: "reversal",
+    match: engulfing,
+  },
+  {
+    id: "hammer",
+    label: "Hammer / shooting star",
+    description: "Long rejection wick on one side with a small body.",
+    context: "reversal",
+    match: hammer,
+  },
+  {
+    id: "doji",
+    label: "Doji",
+    description: "Open and close nearly equal, graded against the prior move.",
+    context: "reversal",
+    match: doji,
+  },
+  {
+    id: "inside-outside",
+    label: "Inside / outside bar",
+    description:
+      "Range contained by, or engulfing, the previous bar's high and low.",
+    context: "continuation",
+    match: insideOutside,
+  },
+  {
+    id: "star",
+    label: "Morning / evening star",
+    description: "Three-bar turn through a small-bodied middle candle.",
+    context: "reversal",
+    match: star,
+  },
+  {
+    id: "three-bar-reversal",
+    label: "Three-bar reversal",
+    description:
+      "A new extreme that the following bar closes through the other way.",
+    context: "reversal",
+    match: threeBarReversal,
+  },
+];
+
+export const candlestickDetectors: DetectorDefinition[] = PATTERNS.map(
+  createCandlestickDetector,
+);
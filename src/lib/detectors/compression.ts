@@ -0,0 +1,214 @@
+import type { IntradayPoint } from "../types";
+import {
+  CROSS_SESSIONS_PARAM,
+  numberParam,
+  sessionEnd,
+  spanAllowed,
+} from "./helpers";
+import type { DetectorDefinition } from "./types";
+
+export const compressionDetector: DetectorDefinition = {
+  id: "compression",
+  label: "Tight-range expansion",
+  description:
+    "Finds the tightest trailing range and checks whether price released from it.",
+  params: [
+    {
+      key: "window",
+      label: "Range window (bars)",
+      type: "number",
+      default: 10,
+      min: 3,
+      max: 60,
+      step: 1,
+    },
+    {
+      key: "minPoints",
+      label: "Minimum bars",
+      type: "number",
+      default: 20,
+      min: 5,
+      max: 500,
+      step: 1,
+    },
+    {
+      key: "breakoutBars",
+      label: "Breakout horizon (bars)",
+      type: "number",
+      default: 3,
+      min: 1,
+      max: 30,
+      step: 1,
+    },
+    {
+      key: "breakoutPct",
+      label: "Breakout cutoff (%)",
+      type: "number",
+      default: 0.8,
+      min: 0.05,
+      max: 10,
+      step: 0.05,
+    },
+    CROSS_SESSIONS_PARAM,
+  ],
+  create(params, { toConfidence }) {
+    const windowSize = numberParam(params, "window");
+    const minPoints = numberParam(params, "minPoints");
+    const breakoutBars = numberParam(params, "breakoutBars");
+    const breakoutPct = numberParam(params, "breakoutPct");
+    const crossesSessions = Boolean(params.crossSessions);
+    // Monotonic deques over the finalized bars of the trailing window.
+    const highs: number[] = [];
+    const lows: number[] = [];
+    let finalized = -1;
+    let best = { index: 0, range: Infinity };
+    let latest: { index: number; range: number } | null = null;
+    // Per-session record lows, remembered at the bar that set them so a later
+    // breakout can be confirmed without knowing the rest of the session.
+    let sessionBest = { session: -1, range: Infinity };
+    const records: Array<{
+      index: number;
+      previous: { session: number; range: number };
+    }> = [];
+    const fired: Array<{ index: number; start: number; changePct: number }> =
+      [];
+
+    const finalize = (points: IntradayPoint[], index: number) => {
+      while (
+        highs.length > 0 &&
+        points[highs[highs.length - 1]].high <= points[index].high
+      ) {
+        highs.pop();
+      }
+      highs.push(index);
+
+      while (
+        lows.length > 0 &&
+        points[lows[lows.length - 1]].low >= points[index].low
+      ) {
+        lows.pop();
+      }
+      lows.push(index);
+      finalized = index;
+    };
+
+    return {
+      push(state, index) {
+        const { points } = state;
+        if (index > 0 && finalized < index - 1) {
+          finalize(points, index - 1);
+        }
+
+        if (latest && latest.index < index) {
+          if (latest.range < best.range) best = latest;
+          latest = null;
+        }
+
+        if (index < windowSize) return;
+        if (!spanAllowed(state, crossesSessions, index - windowSize, index)) {
+          return;
+        }
+
+        while (highs[0] < index - windowSize) highs.shift();
+        while (lows[0] < index - windowSize) lows.shift();
+
+        latest = {
+          index,
+          range:
+            (points[highs[0]].high - points[lows[0]].low) / points[index].close,
+        };
+
+        const session = state.sessionOf[index];
+        const sessionRecord =
+          sessionBest.session === session ? sessionBest.range : Infinity;
+        if (latest.range < sessionRecord) {
+          records.push({ index, previous: sessionBest });
+          sessionBest = { session, range: latest.range };
+        }
+
+        const start = index - breakoutBars;
+        const record = records.findLast((entry) => entry.index <= start);
+        if (
+          record?.index === start &&
+          spanAllowed(state, crossesSessions, start, index)
+        ) {
+          const changePct =
+            ((points[index].close - points[start].close) /
+              points[start].close) *
+            100;
+          if (Math.abs(changePct) >= breakoutPct) {
+            fired.push({ index, start, changePct });
+          }
+        }
+      },
+      pop(_state, index) {
+        if (latest?.index === index) latest = null;
+        if (fired[fired.length - 1]?.index === index) fired.pop();
+
+        const record = records[records.length - 1];
+        if (record?.index === index) {
+          sessionBest = record.previous;
+          records.pop();
+        }
+      },
+      collect(state) {
+        const { points } = state;
+        if (points.length < minPoints) {
+          return { insights: [], signals: [] };
+        }
+
+        const tightest = latest && latest.range < best.range ? latest : best;
+        // No full window fit inside a session yet.
+        if (!Number.isFinite(tightest.range)) {
+          return { insights: [], signals: [] };
+        }
+
+        const minRange = tightest.range;
+        const minIndex = tightest.index;
+        const breakoutIndex = Math.min(
+          crossesSessions ? points.length - 1 : sessionEnd(state, minIndex),
+          minIndex + breakoutBars,
+        );
+        const changePct =
+          ((points[breakoutIndex].close - points[minIndex].close) /
+            points[minIndex].close) *
+          100;
+
+        if (Math.abs(changePct) < breakoutPct) {
+          return { insights: [], signals: [] };
+        }
+
+        return {
+          insights: [
+            {
+              id: `compression-${breakoutIndex}`,
+              title: "Tight-range expansion",
+              description: `Price coiled within a tight ${(
+                minRange * 100
+              ).toFixed(2)}% band before releasing ${changePct.toFixed(
+                2,
+              )}%, often a precursor to sustained follow-through.`,
+              confidence: toConfidence(changePct),
+              startIndex: minIndex,
+              endIndex: breakoutIndex,
+              changePct,
+              direction: changePct >= 0 ? "bullish" : "bearish",
+            },
+          ],
+          signals: [],
+        };
+      },
+      events({ points }) {
+        return fired.map(({ index, changePct }) => ({
+          detector: "compression",
+          index,
+          timestamp: points[index].timestamp,
+          price: points[index].close,
+          direction:
+            changePct >= 0 ? ("bullish" as const) : ("bearish" as const),
+          confidence: toConfidence(changePct),
+        }));
+      },
+    };
+  },
+};
@@ -0,0 +1,26 @@
+import type { DetectorParams, DetectorParamSpec, EngineState } from "./types";
+
+export const CROSS_SESSIONS_PARAM: DetectorParamSpec = {
+  key: "crossSessions",
+  label: "Allow spans across sessions",
+  type: "boolean",
+  default: false,
+};
+
+export function numberParam(params: DetectorParams, key: string) {
+  return Number(params[key]);
+}
+
+export function spanAllowed(
+  state: EngineState,
+  crossesSessions: boolean,
+  from: number,
+  to: number,
+) {
+  return crossesSessions || state.sessionOf[from] === state.sessionOf[to];
+}
+
+export function sessionEnd(state: EngineState, index: number) {
+  const next = state.sessionStarts[state.sessionOf[index] + 1];
+  return next === undefined ? state.points.length - 1 : next - 1;
+}
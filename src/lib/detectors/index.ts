@@ -0,0 +1,16 @@
+export {
+  detectorLabel,
+  getDetector,
+  listDetectors,
+  registerDetector,
+} from "./registry";
+export type {
+  DetectorContext,
+  DetectorDefinition,
+  DetectorOutput,
+  DetectorParamSpec,
+  DetectorParamValue,
+  DetectorParams,
+  EngineState,
+  IncrementalDetector,
+} from "./types";
@@ -0,0 +1,253 @@
+import {
+  type LevelReference,
+  type PivotCluster,
+  type SwingPivot,
+  clusterPivots,
+  confirmPivots,
+  zonesFromClusters,
+} from "../levels";
+import { formatIstTime } from "../sessions";
+import type {
+  InsightConfidence,
+  LevelZone,
+  PatternInsight,
+  SignalMarker,
+} from "../types";
+import { numberParam } from "./helpers";
+import type { DetectorDefinition, EngineState } from "./types";
+
+type Interaction = "test" | "rejection" | "break";
+
+interface ZoneHit {
+  index: number;
+  interaction: Interaction;
+  zone: LevelZone;
+  direction: "bullish" | "bearish";
+  confidence: InsightConfidence;
+}
+
+// How far back a bar may look for the side price last closed on before it
+// wandered into a zone.
+const APPROACH_WINDOW = 20;
+
+const TIERS: InsightConfidence[] = ["low", "medium", "high"];
+
+function gradeZone(zone: LevelZone, interaction: Interaction) {
+  let tier = zone.touches >= 4 ? 2 : zone.touches === 3 ? 1 : 0;
+  if (zone.confluence.length > 0) tier += 1;
+  if (interaction === "test") tier -= 1;
+  return TIERS[Math.max(0, Math.min(2, tier))];
+}
+
+function side(close: number, zone: LevelZone) {
+  if (close > zone.high) return 1;
+  if (close < zone.low) return -1;
+  return 0;
+}
+
+// Position after every pivot at or below `price`, so pivots at the same price
+// stay in confirmation order just as a stable sort would leave them.
+function insertionPoint(byPrice: SwingPivot[], price: number) {
+  let lo = 0;
+  let hi = byPrice.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (byPrice[mid].price <= price) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+function priorSessionReferences(state: EngineState, index: number) {
+  const ordinal = state.sessionOf[index];
+  const from = state.sessionStarts[ordinal - 1];
+  if (from === undefined) return [];
+
+  const to = state.sessionStarts[ordinal] - 1;
+  let high = -Infinity;
+  let low = Infinity;
+  for (let i = from; i <= to; i += 1) {
+    high = Math.max(high, state.points[i].high);
+    low = Math.min(low, state.points[i].low);
+  }
+
+  return [
+    { label: "Prior-day high", price: high },
+    { label: "Prior-day low", price: low },
+    { label: "Prior-day close", price: state.points[to].close },
+  ];
+}
+
+export const levelZoneDetector: DetectorDefinition = {
+  id: "sr-zones",
+  label: "Support / resistance",
+  description:
+    "Tests, rejections and breaks of zones clustered from confirmed swing pivots.",
+  params: [
+    {
+      key: "maxInsights",
+      label: "Insights shown",
+      type: "number",
+      default: 3,
+      min: 0,
+      max: 10,
+      step: 1,
+    },
+  ],
+  create(params, { levels }) {
+    const maxInsights = numberParam(params, "maxInsights");
+    const pivots: SwingPivot[] = [];
+    const pivotCounts: number[] = [];
+    const hits: ZoneHit[] = [];
+    // Pivots are only confirmed every few bars, so their clusters are kept
+    // until the next one arrives and then rebuilt from the previous ones.
+    // Keeping the pivots ordered by price lets that skip a full sort.
+    let byPrice: SwingPivot[] = [];
+    let clusters: PivotCluster[] = [];
+    let stale = false;
+    let references: { ordinal: number; levels: LevelReference[] } | null = null;
+
+    return {
+      push(state, index) {
+        const { points } = state;
+        const ordinal = state.sessionOf[index];
+        if (references?.ordinal !== ordinal) {
+          references = {
+            ordinal,
+            levels: priorSessionReferences(state, index),
+          };
+        }
+
+        if (stale) {
+          clusters = clusterPivots(byPrice, levels.tolerancePct, clusters);
+          stale = false;
+        }
+        // Only pivots confirmed by the previous bar count: a pivot confirmed
+        // by this very bar would be judged against itself.
+        const zones =
+          index === 0
+            ? []
+            : zonesFromClusters(clusters, {
+                lastIndex: index,
+                lastClose: points[index - 1].close,
+                tolerancePct: levels.tolerancePct,
+                maxZones: levels.maxZones,
+                references: references.levels,
+              }).filter((zone) => zone.touches >= 2);
+
+        const confirmed = confirmPivots(points, index, levels.pivotStrength);
+        if (confirmed.length > 0) {
+          pivots.push(...confirmed);
+          confirmed.forEach((pivot) => {
+            byPrice.splice(insertionPoint(byPrice, pivot.price), 0, pivot);
+          });
+          stale = true;
+        }
+        pivotCounts.push(pivots.length);
+
+        const bar = points[index];
+        zones.forEach((zone) => {
+          let approach = 0;
+          for (
+            let i = index - 1;
+            i >= Math.max(0, index - APPROACH_WINDOW) && approach === 0;
+            i -= 1
+          ) {
+            approach = side(points[i].close, zone);
+          }
+          if (approach === 0) return;
+
+          const previous = side(points[index - 1].close, zone);
+          const current = side(bar.close, zone);
+          const pierced =
+            approach < 0 ? bar.high >= zone.low : bar.low <= zone.high;
+
+          let interaction: Interaction | null = null;
+          if (current === -approach) interaction = "break";
+          else if (current === approach && (previous === 0 || pierced)) {
+            interaction = "rejection";
+          } else if (current === 0 && previous !== 0) interaction = "test";
+          if (!interaction) return;
+
+          const holdsBelow =
+            interaction === "break" ? approach > 0 : approach < 0;
+          hits.push({
+            index,
+            interaction,
+            zone,
+            direction: holdsBelow ? "bearish" : "bullish",
+            confidence: gradeZone(zone, interaction),
+          });
+        });
+      },
+      pop(_state, index) {
+        while (hits[hits.length - 1]?.index === index) hits.pop();
+        pivotCounts.pop();
+        const count = pivotCounts[pivotCounts.length - 1] ?? 0;
+        if (pivots.length !== count) {
+          pivots.length = count;
+          byPrice = [...pivots].sort((a, b) => a.price - b.price);
+          clusters = [];
+          stale = true;
+        }
+      },
+      collect({ points }) {
+        const ranked = [...hits]
+          .sort(
+            (a, b) =>
+              TIERS.indexOf(b.confidence) - TIERS.indexOf(a.confidence) ||
+              b.index - a.index,
+          )
+          .slice(0, maxInsights);
+
+        const insights: PatternInsight[] = ranked.map((hit) => {
+          const role = hit.zone.role === "support" ? "Support" : "Resistance";
+          const verb =
+            hit.interaction === "break"
+              ? "broken"
+              : hit.interaction === "rejection"
+                ? "rejected"
+                : "tested";
+          const band = `${hit.zone.low.toFixed(2)}–${hit.zone.high.toFixed(2)}`;
+
+          return {
+            id: `sr-zones-${hit.index}-${hit.zone.id}`,
+            title: `${role} ${verb}`,
+            description: `${role} ${band} (${hit.zone.touches} touch${
+              hit.zone.touches === 1 ? "" : "es"
+            }${
+              hit.zone.confluence.length > 0
+                ? `, ${hit.zone.confluence.join(", ")}`
+                : ""
+            }) was ${verb} at ${formatIstTime(points[hit.index].timestamp)} with a close of ${points[hit.index].close.toFixed(2)}.`,
+            confidence: hit.confidence,
+            startIndex: hit.zone.lastTouchIndex,
+            endIndex: hit.index,
+            direction: hit.direction,
+          };
+        });
+
+        const signals: SignalMarker[] = ranked.map((hit) => ({
+          timestamp: points[hit.index].timestamp,
+          price: points[hit.index].close,
+          label: `Zone ${hit.interaction}`,
+          confidence: hit.confidence,
+          direction: hit.direction,
+          insightId: `sr-zones-${hit.index}-${hit.zone.id}`,
+        }));
+
+        return { insights, signals };
+      },
+      events({ points }) {
+        return hits.map((hit) => ({
+          detector: "sr-zones",
+          index: hit.index,
+          timestamp: points[hit.index].timestamp,
+          price: points[hit.index].close,
+          direction: hit.direction,
+          confidence: hit.confidence,
+        }));
+      },
+    };
+  },
+};
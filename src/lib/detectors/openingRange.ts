@@ -0,0 +1,256 @@
+import { normalizeRangeMinutes, openingRangePhase } from "../openingRange";
+import { formatIstTime } from "../sessions";
+import type { InsightConfidence, PatternInsight, SignalMarker } from "../types";
+import { numberParam, sessionEnd } from "./helpers";
+import type { DetectorDefinition } from "./types";
+
+interface Breakout {
+  index: number;
+  direction: "bullish" | "bearish";
+  extreme: number;
+}
+
+interface RangeState {
+  ordinal: number;
+  startIndex: number;
+  endIndex: number;
+  high: number;
+  low: number;
+  breakout: Breakout | null;
+}
+
+interface RangeHit {
+  index: number;
+  kind: "breakout" | "failed";
+  direction: "bullish" | "bearish";
+  confidence: InsightConfidence;
+  range: RangeState;
+  breakoutIndex: number;
+  // Failed breakouts record how far the move ran before it reversed.
+  runMultiple: number;
+}
+
+function grade(multiple: number, high: number, medium: number) {
+  if (multiple >= high) return "high";
+  if (multiple >= medium) return "medium";
+  return "low";
+}
+
+export const openingRangeDetector: DetectorDefinition = {
+  id: "opening-range",
+  label: "Opening-range breakout",
+  description:
+    "Breaks and failed breaks of the range set after the 09:15 IST open.",
+  params: [
+    {
+      key: "rangeMinutes",
+      label: "Range length (5/15/30 min)",
+      type: "number",
+      default: 15,
+      min: 5,
+      max: 30,
+      step: 5,
+    },
+    {
+      key: "maxInsights",
+      label: "Insights shown",
+      type: "number",
+      default: 3,
+      min: 0,
+      max: 10,
+      step: 1,
+    },
+  ],
+  create(params) {
+    const minutes = normalizeRangeMinutes(numberParam(params, "rangeMinutes"));
+    const maxInsights = numberParam(params, "maxInsights");
+    // One snapshot per bar keeps `pop` trivial: the state of the previous bar
+    // is always still on the stack.
+    const snapshots: RangeState[] = [];
+    const hits: RangeHit[] = [];
+
+    return {
+      push({ points, sessionOf }, index) {
+        const point = points[index];
+        const ordinal = sessionOf[index];
+        const previous = snapshots[index - 1];
+        const state: RangeState =
+          previous && previous.ordinal === ordinal
+            ? { ...previous }
+            : {
+                ordinal,
+                startIndex: -1,
+                endIndex: -1,
+                high: -Infinity,
+                low: Infinity,
+                breakout: null,
+              };
+        snapshots.push(state);
+
+        const phase = openingRangePhase(point.timestamp, minutes);
+        if (phase === "pre-open") return;
+        if (phase === "forming") {
+          if (state.startIndex < 0) state.startIndex = index;
+          state.endIndex = index;
+          state.high = Math.max(state.high, point.high);
+          state.low = Math.min(state.low, point.low);
+          return;
+        }
+
+        const size = state.high - state.low;
+        if (state.startIndex < 0 || size <= 0) return;
+
+        const range = { ...state, breakout: null };
+
+        if (state.breakout) {
+          const up = state.breakout.direction === "bullish";
+          const breakout = {
+            ...state.breakout,
+            extreme: up
+              ? Math.max(state.breakout.extreme, point.high)
+              : Math.min(state.breakout.extreme, point.low),
+          };
+          state.breakout = breakout;
+
+          const backInside = up
+            ? point.close < state.high
+            : point.close > state.low;
+          if (!backInside) return;
+
+          const depth = up
+            ? (state.high - point.close) / size
+            : (point.close - state.low) / size;
+          hits.push({
+            index,
+            kind: "failed",
+            direction: up ? "bearish" : "bullish",
+            confidence: grade(depth, 0.5, 0.25),
+            range,
+            breakoutIndex: breakout.index,
+            runMultiple: up
+              ? (breakout.extreme - state.high) / size
+              : (state.low - breakout.extreme) / size,
+          });
+          state.breakout = null;
+          return;
+        }
+
+        const direction =
+          point.close > state.high
+            ? "bullish"
+            : point.close < state.low
+              ? "bearish"
+              : null;
+        if (!direction) return;
+
+        const strength =
+          direction === "bullish"
+            ? (point.close - state.high) / size
+            : (state.low - point.close) / size;
+        state.breakout = {
+          index,
+          direction,
+          extreme: direction === "bullish" ? point.high : point.low,
+        };
+        hits.push({
+          index,
+          kind: "breakout",
+          direction,
+          confidence: grade(strength, 0.5, 0.2),
+          range,
+          breakoutIndex: index,
+          runMultiple: 0,
+        });
+      },
+      pop(_state, index) {
+        snapshots.pop();
+        if (hits[hits.length - 1]?.index === index) hits.pop();
+      },
+      collect(state) {
+        const { points } = state;
+        const recent = maxInsights > 0 ? hits.slice(-maxInsights) : [];
+        const clock = (index: number) => formatIstTime(points[index].timestamp);
+
+        const insights = recent.map<PatternInsight>((hit) => {
+          const { range } = hit;
+          const size = range.high - range.low;
+          const rangeText = `${minutes}-min range ${range.low.toFixed(
+            2,
+          )}–${range.high.toFixed(2)}`;
+          const up = hit.direction === "bullish";
+
+          if (hit.kind === "failed") {
+            return {
+              id: `opening-range-failed-${hit.index}`,
+              title: `Failed ${up ? "downside" : "upside"} ORB`,
+              description: `The ${clock(hit.breakoutIndex)} break ${
+                up ? "below" : "above"
+              } the ${rangeText} ran ${hit.runMultiple.toFixed(
+                2,
+              )}× the range before closing back inside at ${clock(hit.index)}.`,
+              confidence: hit.confidence,
+              startIndex: hit.breakoutIndex,
+              endIndex: hit.index,
+              direction: hit.direction,
+            };
+          }
+
+          // Follow-through runs until the break fails or the session ends.
+          const failure = hits.find(
+            (other) =>
+              other.kind === "failed" && other.breakoutIndex === hit.index,
+          );
+          const until = failure?.index ?? sessionEnd(state, hit.index);
+          let extreme = up ? -Infinity : Infinity;
+          for (let i = hit.index; i <= until; i += 1) {
+            extreme = up
+              ? Math.max(extreme, points[i].high)
+              : Math.min(extreme, points[i].low);
+          }
+          const followThrough = up
+            ? (extreme - range.high) / size
+            : (range.low - extreme) / size;
+
+          return {
+            id: `opening-range-breakout-${hit.index}`,
+            title: `Opening-range breakout ${up ? "↑" : "↓"}`,
+            description: `Closed ${up ? "above" : "below"} the ${rangeText} at ${clock(
+              hit.index,
+            )}; follow-through so far is ${followThrough.toFixed(
+              2,
+            )}× the range${failure ? `, until it failed at ${clock(failure.index)}` : ""}.`,
+            confidence: hit.confidence,
+            startIndex: range.startIndex,
+            endIndex: hit.index,
+            changePct: (followThrough * size * 100) / points[hit.index].close,
+            direction: hit.direction,
+          };
+        });
+
+        const signals = recent.map<SignalMarker>((hit) => ({
+          timestamp: points[hit.index].timestamp,
+          price: points[hit.index].close,
+          label: hit.kind === "failed" ? "Failed ORB" : "ORB",
+          confidence: hit.confidence,
+          direction: hit.direction,
+          insightId:
+            hit.kind === "failed"
+              ? `opening-range-failed-${hit.index}`
+              : `opening-range-breakout-${hit.index}`,
+        }));
+
+        return { insights, signals };
+      },
+      events({ points }) {
+        return hits.map((hit) => ({
+          detector: "opening-range",
+          index: hit.index,
+          timestamp: points[hit.index].timestamp,
+          price: points[hit.index].close,
+          direction: hit.direction,
+          confidence: hit.confidence,
+        }));
+      },
+    };
+  },
+};
@@ -0,0 +1,37 @@
+import { bigMoveDetector } from "./bigMove";
+import { candlestickDetectors } from "./candlesticks";
+import { compressionDetector } from "./compression";
+import { levelZoneDetector } from "./levelZones";
+import { openingRangeDetector } from "./openingRange";
+import { trendShiftDetector } from "./trendShift";
+import type { DetectorDefinition } from "./types";
+
+const registry = new Map<string, DetectorDefinition>();
+
+export function registerDetector(definition: DetectorDefinition) {
+  if (registry.has(definition.id)) {
+    throw new Error(`Detector "${definition.id}" is already registered.`);
+  }
+  registry.set(definition.id, definition);
+}
+
+export function getDetector(id: string): DetectorDefinition | undefined {
+  return registry.get(id);
+}
+
+export function listDetectors(): DetectorDefinition[] {
+  return Array.from(registry.values());
+}
+
+export function detectorLabel(id: string) {
+  return registry.get(id)?.label ?? id;
+}
+
+[
+  bigMoveDetector,
+  trendShiftDetector,
+  compressionDetector,
+  levelZoneDetector,
+  openingRangeDetector,
+  ...candlestickDetectors,
+].forEach(registerDetector);
@@ -0,0 +1,89 @@
+import { formatIstTime } from "../sessions";
+import type { PatternInsight } from "../types";
+import { numberParam, spanAllowed } from "./helpers";
+import type { DetectorDefinition } from "./types";
+
+export const trendShiftDetector: DetectorDefinition = {
+  id: "ema-cross",
+  label: "EMA fast/slow cross",
+  description: "Reports the most recent crosses of the fast and slow EMAs.",
+  params: [
+    {
+      key: "maxInsights",
+      label: "Insights shown",
+      type: "number",
+      default: 3,
+      min: 0,
+      max: 10,
+      step: 1,
+    },
+    {
+      key: "crossSessions",
+      label: "Allow spans across sessions",
+      type: "boolean",
+      default: true,
+    },
+  ],
+  create(params) {
+    const maxInsights = numberParam(params, "maxInsights");
+    const crossesSessions = Boolean(params.crossSessions);
+    const crosses: Array<{ index: number; direction: "bullish" | "bearish" }> =
+      [];
+
+    return {
+      push(state, index) {
+        if (index < 1) return;
+        if (!spanAllowed(state, crossesSessions, index - 1, index)) return;
+
+        const { emaFast, emaSlow } = state;
+        const prevDiff = emaFast[index - 1] - emaSlow[index - 1];
+        const currDiff = emaFast[index] - emaSlow[index];
+
+        if (prevDiff <= 0 && currDiff > 0) {
+          crosses.push({ index, direction: "bullish" });
+        } else if (prevDiff >= 0 && currDiff < 0) {
+          crosses.push({ index, direction: "bearish" });
+        }
+      },
+      pop(_state, index) {
+        if (crosses[crosses.length - 1]?.index === index) crosses.pop();
+      },
+      collect({ points }) {
+        const recent = maxInsights > 0 ? crosses.slice(-maxInsights) : [];
+        const insights = recent.map<PatternInsight>(({ index, direction }) =>
+          direction === "bullish"
+            ? {
+                id: `bullish-cross-${index}`,
+                title: "Short-term bullish transition",
+                description: `Fast EMA crossed above the intermediate trend near ${formatIstTime(points[index].timestamp)}, suggesting renewed upside momentum.`,
+                confidence: "medium",
+                startIndex: index - 1,
+                endIndex: index,
+                direction: "bullish",
+              }
+            : {
+                id: `bearish-cross-${index}`,
+                title: "Short-term bearish transition",
+                description: `Fast EMA slipped beneath the intermediate trend near ${formatIstTime(points[index].timestamp)}, flagging a potential fade.`,
+                confidence: "medium",
+                startIndex: index - 1,
+                endIndex: index,
+                direction: "bearish",
+              },
+        );
+
+        return { insights, signals: [] };
+      },
+      events({ points }) {
+        return crosses.map(({ index, direction }) => ({
+          detector: "ema-cross",
+          index,
+          timestamp: points[index].timestamp,
+          price: points[index].close,
+          direction,
+          confidence: "medium" as const,
+        }));
+      },
+    };
+  },
+};
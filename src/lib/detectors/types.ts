@@ -0,0 +1,57 @@
+import type { LevelOptions } from "../levels";
+import type {
+  DetectorEvent,
+  InsightConfidence,
+  IntradayPoint,
+  PatternInsight,
+  SignalMarker,
+} from "../types";
+
+export type DetectorParamValue = number | boolean;
+export type DetectorParams = Record<string, DetectorParamValue>;
+
+export interface DetectorParamSpec {
+  key: string;
+  label: string;
+  type: "number" | "boolean";
+  default: DetectorParamValue;
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+export interface EngineState {
+  points: IntradayPoint[];
+  emaFast: number[];
+  emaSlow: number[];
+  sessionOf: number[];
+  sessionStarts: number[];
+}
+
+export interface DetectorOutput {
+  insights: PatternInsight[];
+  signals: SignalMarker[];
+}
+
+export interface DetectorContext {
+  toConfidence(changePct: number): InsightConfidence;
+  levels: LevelOptions;
+}
+
+// Detectors only ever see the newest bar being appended or removed. Every bar
+// before the last is final, so `pop` only has to undo the most recent `push`.
+export interface IncrementalDetector {
+  push(state: EngineState, index: number): void;
+  pop(state: EngineState, index: number): void;
+  collect(state: EngineState): DetectorOutput;
+  // Causal record of every trigger, each emitted using bars up to its index.
+  events(state: EngineState): DetectorEvent[];
+}
+
+export interface DetectorDefinition {
+  id: string;
+  label: string;
+  description: string;
+  params: DetectorParamSpec[];
+  create(params: DetectorParams, context: DetectorContext): IncrementalDetector;
+}
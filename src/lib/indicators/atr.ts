@@ -0,0 +1,19 @@
+import type { IntradayPoint } from "../types";
+import { wilder } from "./series";
+
+export function trueRange(points: IntradayPoint[]) {
+  return points.map((point, idx) => {
+    const previous = points[idx - 1];
+    if (!previous) return point.high - point.low;
+
+    return Math.max(
+      point.high - point.low,
+      Math.abs(point.high - previous.close),
+      Math.abs(point.low - previous.close),
+    );
+  });
+}
+
+export function computeATR(points: IntradayPoint[], length = 14) {
+  return wilder(trueRange(points), length);
+}
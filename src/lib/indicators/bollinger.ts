@@ -0,0 +1,36 @@
+import type { IntradayPoint } from "../types";
+import { type IndicatorValue, sma } from "./series";
+
+export interface BollingerSeries {
+  middle: IndicatorValue[];
+  upper: IndicatorValue[];
+  lower: IndicatorValue[];
+}
+
+export function computeBollinger(
+  points: IntradayPoint[],
+  length = 20,
+  multiplier = 2,
+): BollingerSeries {
+  const closes = points.map((point) => point.close);
+  const middle = sma(closes, length);
+  const deviation = middle.map((mean, idx) => {
+    if (mean === null) return null;
+
+    let sumSq = 0;
+    for (let i = idx - length + 1; i <= idx; i += 1) {
+      sumSq += (closes[i] - mean) ** 2;
+    }
+    return Math.sqrt(sumSq / length);
+  });
+
+  return {
+    middle,
+    upper: middle.map((mean, idx) =>
+      mean === null ? null : mean + multiplier * (deviation[idx] as number),
+    ),
+    lower: middle.map((mean, idx) =>
+      mean === null ? null : mean - multiplier * (deviation[idx] as number),
+    ),
+  };
+}
@@ -0,0 +1,190 @@
+import type { IntradayPoint } from "../types";
+import { computeATR } from "./atr";
+import { computeBollinger } from "./bollinger";
+import { computeMACD } from "./macd";
+import { computeRSI } from "./rsi";
+import type { IndicatorValue } from "./series";
+import { computeStochastic } from "./stochastic";
+import { computeSuperTrend } from "./superTrend";
+
+export * from "./atr";
+export * from "./bollinger";
+export * from "./macd";
+export * from "./rsi";
+export * from "./series";
+export * from "./stochastic";
+export * from "./superTrend";
+export * from "./vwap";
+
+export type IndicatorId =
+  "bollinger" | "supertrend" | "rsi" | "macd" | "stochastic" | "atr";
+
+export interface IndicatorLine {
+  key: string;
+  label: string;
+  values: IndicatorValue[];
+  color: string;
+  kind?: "line" | "histogram";
+  dashed?: boolean;
+}
+
+export interface IndicatorPlot {
+  id: IndicatorId;
+  label: string;
+  pane: "price" | "oscillator";
+  lines: IndicatorLine[];
+  bounds?: { min: number; max: number };
+  guides?: number[];
+}
+
+export interface IndicatorDefinition {
+  id: IndicatorId;
+  label: string;
+  pane: IndicatorPlot["pane"];
+  plot(points: IntradayPoint[]): Omit<IndicatorPlot, "id" | "label" | "pane">;
+}
+
+export const INDICATORS: IndicatorDefinition[] = [
+  {
+    id: "bollinger",
+    label: "Bollinger (20, 2)",
+    pane: "price",
+    plot(points) {
+      const { upper, middle, lower } = computeBollinger(points);
+      return {
+        lines: [
+          { key: "upper", label: "BB upper", values: upper, color: "#60a5fa" },
+          {
+            key: "middle",
+            label: "BB basis",
+            values: middle,
+            color: "#93c5fd",
+            dashed: true,
+          },
+          { key: "lower", label: "BB lower", values: lower, color: "#60a5fa" },
+        ],
+      };
+    },
+  },
+  {
+    id: "supertrend",
+    label: "SuperTrend (10, 3)",
+    pane: "price",
+    plot(points) {
+      const { value, direction } = computeSuperTrend(points);
+      return {
+        lines: [
+          {
+            key: "up",
+            label: "SuperTrend ▲",
+            values: value.map((v, idx) => (direction[idx] === 1 ? v : null)),
+            color: "#10b981",
+          },
+          {
+            key: "down",
+            label: "SuperTrend ▼",
+            values: value.map((v, idx) => (direction[idx] === -1 ? v : null)),
+            color: "#f87171",
+          },
+        ],
+      };
+    },
+  },
+  {
+    id: "rsi",
+    label: "RSI (14)",
+    pane: "oscillator",
+    plot(points) {
+      return {
+        lines: [
+          {
+            key: "rsi",
+            label: "RSI",
+            values: computeRSI(points),
+            color: "#f472b6",
+          },
+        ],
+        bounds: { min: 0, max: 100 },
+        guides: [30, 70],
+      };
+    },
+  },
+  {
+    id: "macd",
+    label: "MACD (12, 26, 9)",
+    pane: "oscillator",
+    plot(points) {
+      const { macd, signal, histogram } = computeMACD(points);
+      return {
+        lines: [
+          {
+            key: "histogram",
+            label: "MACD hist",
+            values: histogram,
+            color: "#64748b",
+            kind: "histogram",
+          },
+          { key: "macd", label: "MACD", values: macd, color: "#38bdf8" },
+          {
+            key: "signal",
+            label: "MACD signal",
+            values: signal,
+            color: "#fb923c",
+          },
+        ],
+        guides: [0],
+      };
+    },
+  },
+  {
+    id: "stochastic",
+    label: "Stochastic (14, 3, 3)",
+    pane: "oscillator",
+    plot(points) {
+      const { k, d } = computeStochastic(points);
+      return {
+        lines: [
+          { key: "k", label: "%K", values: k, color: "#a3e635" },
+          { key: "d", label: "%D", values: d, color: "#facc15", dashed: true },
+        ],
+        bounds: { min: 0, max: 100 },
+        guides: [20, 80],
+      };
+    },
+  },
+  {
+    id: "atr",
+    label: "ATR (14)",
+    pane: "oscillator",
+    plot(points) {
+      return {
+        lines: [
+          {
+            key: "atr",
+            label: "ATR",
+            values: computeATR(points),
+            color: "#c084fc",
+          },
+        ],
+      };
+    },
+  },
+];
+
+export function isIndicatorId(value: unknown): value is IndicatorId {
+  return INDICATORS.some((definition) => definition.id === value);
+}
+
+export function computeIndicators(
+  points: IntradayPoint[],
+  ids: IndicatorId[],
+): IndicatorPlot[] {
+  return INDICATORS.filter((definition) => ids.includes(definition.id)).map(
+    (definition) => ({
+      id: definition.id,
+      label: definition.label,
+      pane: definition.pane,
+      ...definition.plot(points),
+    }),
+  );
+}
@@ -0,0 +1,35 @@
+import type { IntradayPoint } from "../types";
+import { type IndicatorValue, ema } from "./series";
+
+export interface MACDSeries {
+  macd: IndicatorValue[];
+  signal: IndicatorValue[];
+  histogram: IndicatorValue[];
+}
+
+export function computeMACD(
+  points: IntradayPoint[],
+  fast = 12,
+  slow = 26,
+  signalLength = 9,
+): MACDSeries {
+  const closes = points.map((point) => point.close);
+  const fastEma = ema(closes, fast);
+  const slowEma = ema(closes, slow);
+  const macd = fastEma.map((value, idx) => {
+    const slowValue = slowEma[idx];
+    return value === null || slowValue === null ? null : value - slowValue;
+  });
+  const signal = ema(macd, signalLength);
+
+  return {
+    macd,
+    signal,
+    histogram: macd.map((value, idx) => {
+      const signalValue = signal[idx];
+      return value === null || signalValue === null
+        ? null
+        : value - signalValue;
+    }),
+  };
+}
@@ -0,0 +1,30 @@
+import type { IntradayPoint } from "../types";
+import { type IndicatorValue, wilder } from "./series";
+
+export function computeRSI(points: IntradayPoint[], length = 14) {
+  const changes = points.slice(1).map((point, idx) => {
+    return point.close - points[idx].close;
+  });
+  const gains = wilder(
+    changes.map((change) => Math.max(change, 0)),
+    length,
+  );
+  const losses = wilder(
+    changes.map((change) => Math.max(-change, 0)),
+    length,
+  );
+
+  const rsi: IndicatorValue[] = [null];
+  gains.forEach((gain, idx) => {
+    const loss = losses[idx];
+    if (gain === null || loss === null) {
+      rsi.push(null);
+    } else if (loss === 0) {
+      rsi.push(gain === 0 ? 50 : 100);
+    } else {
+      rsi.push(100 - 100 / (1 + gain / loss));
+    }
+  });
+
+  return rsi.slice(0, points.length);
+}
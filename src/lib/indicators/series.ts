@@ -0,0 +1,80 @@
+// Every indicator returns one value per input bar. Bars inside the warm-up
+// window, where the look-back is not yet full, are `null` rather than a
+// partially seeded number, so charts leave a gap and detectors can skip them.
+export type IndicatorValue = number | null;
+
+export function sma(values: IndicatorValue[], length: number) {
+  const result: IndicatorValue[] = new Array(values.length).fill(null);
+  let sum = 0;
+  let filled = 0;
+
+  values.forEach((value, index) => {
+    if (value === null) {
+      sum = 0;
+      filled = 0;
+      return;
+    }
+
+    sum += value;
+    filled += 1;
+    if (filled > length) {
+      sum -= values[index - length] as number;
+      filled = length;
+    }
+    if (filled === length) result[index] = sum / length;
+  });
+
+  return result;
+}
+
+// Seeded with the simple average of the first `length` defined values, which
+// is how charting platforms line up their MACD and Bollinger readings.
+export function ema(values: IndicatorValue[], length: number) {
+  const result: IndicatorValue[] = new Array(values.length).fill(null);
+  const k = 2 / (length + 1);
+  let previous: number | null = null;
+  let seed = 0;
+  let filled = 0;
+
+  values.forEach((value, index) => {
+    if (value === null) return;
+
+    if (previous === null) {
+      seed += value;
+      filled += 1;
+      if (filled === length) {
+        previous = seed / length;
+        result[index] = previous;
+      }
+      return;
+    }
+
+    previous = value * k + previous * (1 - k);
+    result[index] = previous;
+  });
+
+  return result;
+}
+
+// Wilder's smoothing (an EMA with alpha = 1 / length) used by RSI and ATR.
+export function wilder(values: number[], length: number) {
+  const result: IndicatorValue[] = new Array(values.length).fill(null);
+  let previous: number | null = null;
+  let seed = 0;
+
+  values.forEach((value, index) => {
+    if (previous === null) {
+      seed += value;
+      if (index === length - 1) {
+        previous = seed / length;
+        result[index] = previous;
+      }
+      return;
+    }
+
+    previous = (previous * (length - 1) + value) / length;
+    result[index] = previous;
+  });
+
+  return result;
+}
@@ -0,0 +1,33 @@
+import type { IntradayPoint } from "../types";
+import { type IndicatorValue, sma } from "./series";
+
+export interface StochasticSeries {
+  k: IndicatorValue[];
+  d: IndicatorValue[];
+}
+
+// Slow stochastic: the raw %K is smoothed before %D is taken from it.
+export function computeStochastic(
+  points: IntradayPoint[],
+  length = 14,
+  smoothK = 3,
+  smoothD = 3,
+): StochasticSeries {
+  const raw = points.map((point, idx) => {
+    if (idx < length - 1) return null;
+
+    let highest = -Infinity;
+    let lowest = Infinity;
+    for (let i = idx - length + 1; i <= idx; i += 1) {
+      highest = Math.max(highest, points[i].high);
+      lowest = Math.min(lowest, points[i].low);
+    }
+
+    return highest === lowest
+      ? 50
+      : ((point.close - lowest) / (highest - lowest)) * 100;
+  });
+  const k = sma(raw, smoothK);
+
+  return { k, d: sma(k, smoothD) };
+}
@@ -0,0 +1,52 @@
+import type { IntradayPoint } from "../types";
+import { computeATR } from "./atr";
+import type { IndicatorValue } from "./series";
+
+export interface SuperTrendSeries {
+  value: IndicatorValue[];
+  direction: Array<1 | -1 | null>;
+}
+
+export function computeSuperTrend(
+  points: IntradayPoint[],
+  length = 10,
+  multiplier = 3,
+): SuperTrendSeries {
+  const atr = computeATR(points, length);
+  const value: IndicatorValue[] = [];
+  const direction: SuperTrendSeries["direction"] = [];
+  let upper = 0;
+  let lower = 0;
+  let trend: 1 | -1 | null = null;
+
+  points.forEach((point, idx) => {
+    const range = atr[idx];
+    if (range === null) {
+      value.push(null);
+      direction.push(null);
+      return;
+    }
+
+    const mid = (point.high + point.low) / 2;
+    const basicUpper = mid + multiplier * range;
+    const basicLower = mid - multiplier * range;
+    const previousClose = points[idx - 1]?.close ?? point.close;
+
+    if (trend === null) {
+      upper = basicUpper;
+      lower = basicLower;
+      trend = point.close >= mid ? 1 : -1;
+    } else {
+      upper = basicUpper < upper || previousClose > upper ? basicUpper : upper;
+      lower = basicLower > lower || previousClose < lower ? basicLower : lower;
+
+      if (trend === 1 && point.close < lower) trend = -1;
+      else if (trend === -1 && point.close > upper) trend = 1;
+    }
+
+    value.push(trend === 1 ? lower : upper);
+    direction.push(trend);
+  });
+
+  return { value, direction };
+}
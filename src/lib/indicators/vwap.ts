@@ -0,0 +1,77 @@
+import type { IntradayPoint } from "../types";
+
+// Indices such as ^NSEI report zero volume. When a session (or an anchored
+// span) has no traded volume at all, every bar gets a weight of one, which
+// turns VWAP into a time-weighted average of the typical price.
+export interface VwapAccumulator {
+  volume: number;
+  priceVolume: number;
+  priceSqVolume: number;
+  bars: number;
+  price: number;
+  priceSq: number;
+}
+
+export interface VwapReading {
+  vwap: number;
+  sigma: number;
+  volumeProxy: boolean;
+}
+
+export function typicalPrice(point: IntradayPoint) {
+  return (point.high + point.low + point.close) / 3;
+}
+
+export function accumulateVwap(
+  previous: VwapAccumulator | null,
+  point: IntradayPoint,
+): VwapAccumulator {
+  const price = typicalPrice(point);
+  const volume = Math.max(0, point.volume || 0);
+  const base = previous ?? {
+    volume: 0,
+    priceVolume: 0,
+    priceSqVolume: 0,
+    bars: 0,
+    price: 0,
+    priceSq: 0,
+  };
+
+  return {
+    volume: base.volume + volume,
+    priceVolume: base.priceVolume + price * volume,
+    priceSqVolume: base.priceSqVolume + price * price * volume,
+    bars: base.bars + 1,
+    price: base.price + price,
+    priceSq: base.priceSq + price * price,
+  };
+}
+
+export function readVwap(accumulator: VwapAccumulator): VwapReading {
+  const volumeProxy = accumulator.volume <= 0;
+  const weight = volumeProxy ? accumulator.bars : accumulator.volume;
+  const sum = volumeProxy ? accumulator.price : accumulator.priceVolume;
+  const sumSq = volumeProxy ? accumulator.priceSq : accumulator.priceSqVolume;
+  const vwap = sum / weight;
+
+  return {
+    vwap,
+    sigma: Math.sqrt(Math.max(0, sumSq / weight - vwap * vwap)),
+    volumeProxy,
+  };
+}
+
+export function computeAnchoredVwap(
+  points: IntradayPoint[],
+  anchorIndex: number,
+): number[] {
+  const values: number[] = [];
+  let accumulator: VwapAccumulator | null = null;
+
+  for (let i = anchorIndex; i < points.length; i += 1) {
+    accumulator = accumulateVwap(accumulator, points[i]);
+    values.push(readVwap(accumulator).vwap);
+  }
+
+  return values;
+}
@@ -0,0 +1,119 @@
+export interface TradingSession {
+  timezone: string;
+  open: string;
+  close: string;
+}
+
+export interface Instrument {
+  symbol: string;
+  name: string;
+  shortName: string;
+  exchange: "NSE" | "BSE";
+  kind: "index" | "equity";
+  tickSize: number;
+  lotSize: number;
+  session: TradingSession;
+}
+
+const NSE_CASH_SESSION: TradingSession = {
+  timezone: "Asia/Kolkata",
+  open: "09:15",
+  close: "15:30",
+};
+
+export const DEFAULT_SYMBOL = "^NSEI";
+
+export const INSTRUMENTS: Instrument[] = [
+  {
+    symbol: "^NSEI",
+    name: "Nifty 50",
+    shortName: "NIFTY",
+    exchange: "NSE",
+    kind: "index",
+    tickSize: 0.05,
+    lotSize: 75,
+    session: NSE_CASH_SESSION,
+  },
+  {
+    symbol: "^NSEBANK",
+    name: "Nifty Bank",
+    shortName: "BANKNIFTY",
+    exchange: "NSE",
+    kind: "index",
+    tickSize: 0.05,
+    lotSize: 35,
+    session: NSE_CASH_SESSION,
+  },
+  {
+    symbol: "NIFTY_FIN_SERVICE.NS",
+    name: "Nifty Financial Services",
+    shortName: "FINNIFTY",
+    exchange: "NSE",
+    kind: "index",
+    tickSize: 0.05,
+    lotSize: 65,
+    session: NSE_CASH_SESSION,
+  },
+  {
+    symbol: "RELIANCE.NS",
+    name: "Reliance Industries",
+    shortName: "RELIANCE",
+    exchange: "NSE",
+    kind: "equity",
+    tickSize: 0.1,
+    lotSize: 500,
+    session: NSE_CASH_SESSION,
+  },
+  {
+    symbol: "HDFCBANK.NS",
+    name: "HDFC Bank",
+    shortName: "HDFCBANK",
+    exchange: "NSE",
+    kind: "equity",
+    tickSize: 0.1,
+    lotSize: 550,
+    session: NSE_CASH_SESSION,
+  },
+  {
+    symbol: "ICICIBANK.NS",
+    name: "ICICI Bank",
+    shortName: "ICICIBANK",
+    exchange: "NSE",
+    kind: "equity",
+    tickSize: 0.1,
+    lotSize: 700,
+    session: NSE_CASH_SESSION,
+  },
+  {
+    symbol: "INFY.NS",
+    name: "Infosys",
+    shortName: "INFY",
+    exchange: "NSE",
+    kind: "equity",
+    tickSize: 0.1,
+    lotSize: 400,
+    session: NSE_CASH_SESSION,
+  },
+  {
+    symbol: "TCS.NS",
+    name: "Tata Consultancy Services",
+    shortName: "TCS",
+    exchange: "NSE",
+    kind: "equity",
+    tickSize: 0.1,
+    lotSize: 175,
+    session: NSE_CASH_SESSION,
+  },
+];
+
+const INSTRUMENTS_BY_SYMBOL = new Map(
+  INSTRUMENTS.map((instrument) => [instrument.symbol, instrument]),
+);
+
+export function getInstrument(symbol: string): Instrument | undefined {
+  return INSTRUMENTS_BY_SYMBOL.get(symbol);
+}
+
+export function isSupportedSymbol(symbol: string): boolean {
+  return INSTRUMENTS_BY_SYMBOL.has(symbol);
+}
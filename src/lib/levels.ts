@@ -0,0 +1,229 @@
+import type { IntradayPoint, LevelZone } from "./types";
+
+export interface SwingPivot {
+  index: number;
+  price: number;
+  kind: "high" | "low";
+}
+
+export interface LevelReference {
+  label: string;
+  price: number;
+}
+
+export interface LevelOptions {
+  pivotStrength: number;
+  tolerancePct: number;
+  maxZones: number;
+}
+
+// Touches lose half their weight every this many bars, so a level defended
+// this morning outranks one that was last seen three sessions ago.
+const TOUCH_HALF_LIFE = 100;
+const CONFLUENCE_BONUS = 0.5;
+
+// A pivot at `index - strength` can only be confirmed once `strength` bars
+// have printed after it, which keeps every zone free of lookahead.
+export function confirmPivots(
+  points: IntradayPoint[],
+  index: number,
+  strength: number,
+): SwingPivot[] {
+  const candidate = index - strength;
+  if (candidate - strength < 0) return [];
+
+  const bar = points[candidate];
+  let isHigh = true;
+  let isLow = true;
+
+  for (let i = candidate - strength; i <= index; i += 1) {
+    if (i === candidate) continue;
+    const before = i < candidate;
+
+    if (before ? points[i].high >= bar.high : points[i].high > bar.high) {
+      isHigh = false;
+    }
+    if (before ? points[i].low <= bar.low : points[i].low < bar.low) {
+      isLow = false;
+    }
+  }
+
+  const pivots: SwingPivot[] = [];
+  if (isHigh) pivots.push({ index: candidate, price: bar.high, kind: "high" });
+  if (isLow) pivots.push({ index: candidate, price: bar.low, kind: "low" });
+  return pivots;
+}
+
+export function findSwingPivots(points: IntradayPoint[], strength: number) {
+  return points.flatMap((_point, index) =>
+    confirmPivots(points, index, strength),
+  );
+}
+
+export function roundNumberStep(price: number) {
+  return 10 ** Math.max(0, Math.floor(Math.log10(price)) - 2);
+}
+
+// Zones are rebuilt on every bar; `toLocaleString` would set up a new
+// formatter for each label.
+const LEVEL_FORMAT = new Intl.NumberFormat("en-IN", {
+  maximumFractionDigits: 2,
+});
+
+function formatLevel(price: number) {
+  return LEVEL_FORMAT.format(price);
+}
+
+interface ZoneOptions {
+  lastIndex: number;
+  lastClose: number;
+  tolerancePct: number;
+  maxZones?: number;
+  references?: LevelReference[];
+}
+
+// The parts of a zone that only depend on its pivots.
+export interface PivotCluster {
+  pivots: SwingPivot[];
+  mid: number;
+  low: number;
+  high: number;
+  lastTouchIndex: number;
+  // Touch weight as of the last touch; it decays uniformly from there.
+  weight: number;
+  rounds: string[];
+}
+
+function describeCluster(
+  pivots: SwingPivot[],
+  sum: number,
+  tolerancePct: number,
+): PivotCluster {
+  // Pivots arrive sorted by price.
+  const lowest = pivots[0].price;
+  const highest = pivots[pivots.length - 1].price;
+  const mid = sum / pivots.length;
+  const slack = (mid * tolerancePct) / 200;
+  const pad = Math.max(0, slack - (highest - lowest) / 2);
+  const low = lowest - pad;
+  const high = highest + pad;
+
+  const step = roundNumberStep(mid);
+  const rounds: string[] = [];
+  for (
+    let level = Math.ceil((low - slack) / step) * step;
+    level <= high + slack;
+    level += step
+  ) {
+    rounds.push(`Round ${formatLevel(level)}`);
+  }
+
+  const lastTouchIndex = Math.max(...pivots.map((pivot) => pivot.index));
+  return {
+    pivots,
+    mid,
+    low,
+    high,
+    lastTouchIndex,
+    weight: pivots.reduce(
+      (total, pivot) =>
+        total + 0.5 ** ((lastTouchIndex - pivot.index) / TOUCH_HALF_LIFE),
+      0,
+    ),
+    rounds,
+  };
+}
+
+// Pivots sorted by price, grouped while each stays within `tolerancePct` of
+// its cluster's mean. Only depends on the pivots, so callers rebuilding zones
+// on every bar can keep the clusters until another pivot is confirmed, and
+// pass the old ones as `previous` when the only change is added pivots.
+export function clusterPivots(
+  pivots: SwingPivot[],
+  tolerancePct: number,
+  previous: PivotCluster[] = [],
+): PivotCluster[] {
+  const sorted = [...pivots].sort((a, b) => a.price - b.price);
+  const groups: Array<{ pivots: SwingPivot[]; sum: number }> = [];
+
+  sorted.forEach((pivot) => {
+    const group = groups[groups.length - 1];
+    const mean = group && group.sum / group.pivots.length;
+
+    if (group && Math.abs(pivot.price - mean) <= (mean * tolerancePct) / 100) {
+      group.pivots.push(pivot);
+      group.sum += pivot.price;
+    } else {
+      groups.push({ pivots: [pivot], sum: pivot.price });
+    }
+  });
+
+  // Clusters are runs of the price order, so with pivots only ever added a
+  // run with the same ends and size holds the same pivots.
+  const reusable = new Map(
+    previous.map((cluster) => [cluster.pivots[0], cluster]),
+  );
+  return groups.map((group) => {
+    const cluster = reusable.get(group.pivots[0]);
+    return cluster &&
+      cluster.pivots.length === group.pivots.length &&
+      cluster.pivots[cluster.pivots.length - 1] ===
+        group.pivots[group.pivots.length - 1]
+      ? cluster
+      : describeCluster(group.pivots, group.sum, tolerancePct);
+  });
+}
+
+export function buildLevelZones(pivots: SwingPivot[], options: ZoneOptions) {
+  return zonesFromClusters(
+    clusterPivots(pivots, options.tolerancePct),
+    options,
+  );
+}
+
+export function zonesFromClusters(
+  clusters: PivotCluster[],
+  {
+    lastIndex,
+    lastClose,
+    tolerancePct,
+    maxZones = Infinity,
+    references = [],
+  }: ZoneOptions,
+): LevelZone[] {
+  const zones = clusters.map<LevelZone>((cluster) => {
+    const { mid, low, high } = cluster;
+    const slack = (mid * tolerancePct) / 200;
+    const confluence = references
+      .filter((ref) => ref.price >= low - slack && ref.price <= high + slack)
+      .map((ref) => ref.label)
+      .concat(cluster.rounds);
+
+    const recency =
+      cluster.weight *
+      0.5 ** ((lastIndex - cluster.lastTouchIndex) / TOUCH_HALF_LIFE);
+    const role = mid <= lastClose ? "support" : "resistance";
+
+    return {
+      id: `${role}-${Math.round(mid * 100)}`,
+      role,
+      low,
+      high,
+      touches: cluster.pivots.length,
+      lastTouchIndex: cluster.lastTouchIndex,
+      score: recency + confluence.length * CONFLUENCE_BONUS,
+      confluence,
+    };
+  });
+
+  return zones.sort((a, b) => b.score - a.score).slice(0, maxZones);
+}
+
+export function describeZone(zone: LevelZone) {
+  const band = `${formatLevel(zone.low)}–${formatLevel(zone.high)}`;
+  const extras = [
+    `${zone.touches} touch${zone.touches === 1 ? "" : "es"}`,
+    ...zone.confluence,
+  ];
+  return `${band} (${extras.join(", ")})`;
+}
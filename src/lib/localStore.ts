@@ -0,0 +1,56 @@
+export interface LocalStore<T> {
+  get(): T;
+  getServerSnapshot(): T;
+  set(value: T): void;
+  subscribe(listener: () => void): () => void;
+}
+
+export function createLocalStore<T>(
+  key: string,
+  parse: (raw: unknown) => T,
+  fallback: () => T,
+): LocalStore<T> {
+  const listeners = new Set<() => void>();
+  const serverSnapshot = fallback();
+  let cachedRaw: string | null | undefined;
+  let cachedValue = serverSnapshot;
+
+  const get = () => {
+    if (typeof window === "undefined") return serverSnapshot;
+
+    const raw = window.localStorage.getItem(key);
+    if (raw === cachedRaw) return cachedValue;
+
+    cachedRaw = raw;
+    try {
+      cachedValue = raw === null ? fallback() : parse(JSON.parse(raw));
+    } catch {
+      cachedValue = fallback();
+    }
+    return cachedValue;
+  };
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === key) listeners.forEach((listener) => listener());
+  };
+
+  return {
+    get,
+    getServerSnapshot: () => serverSnapshot,
+    set(value) {
+      window.localStorage.setItem(key, JSON.stringify(value));
+      listeners.forEach((listener) => listener());
+    },
+    subscribe(listener) {
+      if (listeners.size === 0) window.addEventListener("storage", onStorage);
+      listeners.add(listener);
+
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) {
+          window.removeEventListener("storage", onStorage);
+        }
+      };
+    },
+  };
+}
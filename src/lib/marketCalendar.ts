@@ -0,0 +1,192 @@
+import { IST_OFFSET_SECONDS, istDateLabel } from "./sessions";
+
+export type SessionKind = "regular" | "special";
+
+export interface SessionDay {
+  date: string;
+  kind: SessionKind;
+  preOpen: string;
+  open: string;
+  close: string;
+  postClose: string;
+  note?: string;
+}
+
+export type MarketPhase =
+  "pre-open" | "open" | "post-close" | "closed" | "holiday" | "weekend";
+
+export interface MarketStatus {
+  phase: MarketPhase;
+  label: string;
+  session: SessionDay | null;
+  holiday: string | null;
+  // Epoch seconds of the next regular or special open, for countdowns and
+  // cache expiry while the market is shut.
+  nextOpen: number | null;
+}
+
+const REGULAR_TIMINGS = {
+  preOpen: "09:00",
+  open: "09:15",
+  close: "15:30",
+  postClose: "16:00",
+};
+
+// NSE equity-segment trading holidays. The exchange publishes the list every
+// December; extend it from that circular rather than guessing festival dates.
+export const NSE_HOLIDAYS: Record<string, string> = {
+  "2025-02-26": "Mahashivratri",
+  "2025-03-14": "Holi",
+  "2025-03-31": "Id-Ul-Fitr (Ramzan Eid)",
+  "2025-04-10": "Shri Mahavir Jayanti",
+  "2025-04-14": "Dr. Baba Saheb Ambedkar Jayanti",
+  "2025-04-18": "Good Friday",
+  "2025-05-01": "Maharashtra Day",
+  "2025-08-15": "Independence Day",
+  "2025-08-27": "Ganesh Chaturthi",
+  "2025-10-02": "Mahatma Gandhi Jayanti / Dussehra",
+  "2025-10-21": "Diwali Laxmi Pujan",
+  "2025-10-22": "Diwali Balipratipada",
+  "2025-11-05": "Prakash Gurpurb Sri Guru Nanak Dev",
+  "2025-12-25": "Christmas",
+  "2026-01-26": "Republic Day",
+  "2026-03-03": "Holi",
+  "2026-03-26": "Shri Ram Navami",
+  "2026-03-31": "Shri Mahavir Jayanti",
+  "2026-04-03": "Good Friday",
+  "2026-04-14": "Dr. Baba Saheb Ambedkar Jayanti",
+  "2026-05-01": "Maharashtra Day",
+  "2026-05-28": "Bakri Id",
+  "2026-06-26": "Muharram",
+  "2026-09-14": "Ganesh Chaturthi",
+  "2026-10-02": "Mahatma Gandhi Jayanti",
+  "2026-10-20": "Dussehra",
+  "2026-11-10": "Diwali Balipratipada",
+  "2026-11-24": "Prakash Gurpurb Sri Guru Nanak Dev",
+  "2026-12-25": "Christmas",
+};
+
+// Sessions held on a holiday or weekend, such as Muhurat trading or a Budget
+// day that falls on a Saturday. These override the holiday list.
+export const NSE_SPECIAL_SESSIONS: SessionDay[] = [
+  {
+    date: "2025-02-01",
+    kind: "special",
+    ...REGULAR_TIMINGS,
+    note: "Union Budget",
+  },
+  {
+    date: "2025-10-21",
+    kind: "special",
+    preOpen: "13:30",
+    open: "13:45",
+    close: "14:45",
+    postClose: "14:55",
+    note: "Muhurat trading",
+  },
+];
+
+const SPECIAL_BY_DATE = new Map(
+  NSE_SPECIAL_SESSIONS.map((session) => [session.date, session]),
+);
+
+function weekday(date: string) {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function isWeekend(date: string) {
+  const day = weekday(date);
+  return day === 0 || day === 6;
+}
+
+// Epoch seconds of an IST wall-clock time on the given IST date.
+export function istTimestamp(date: string, time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  return (
+    Date.parse(`${date}T00:00:00Z`) / 1000 +
+    hours * 3600 +
+    minutes * 60 -
+    IST_OFFSET_SECONDS
+  );
+}
+
+export function getHoliday(date: string): string | null {
+  return NSE_HOLIDAYS[date] ?? null;
+}
+
+export function getTradingSession(date: string): SessionDay | null {
+  const special = SPECIAL_BY_DATE.get(date);
+  if (special) return special;
+  if (isWeekend(date) || getHoliday(date)) return null;
+  return { date, kind: "regular", ...REGULAR_TIMINGS };
+}
+
+export function isTradingDay(date: string) {
+  return getTradingSession(date) !== null;
+}
+
+export function nextSessionOpen(now: number): number | null {
+  // Two weeks comfortably covers the longest NSE closure.
+  for (let day = 0; day < 14; day += 1) {
+    const session = getTradingSession(istDateLabel(now + day * 86_400));
+    if (!session) continue;
+
+    const opensAt = istTimestamp(session.date, session.preOpen);
+    if (opensAt > now) return opensAt;
+  }
+  return null;
+}
+
+export function getMarketStatus(now = new Date()): MarketStatus {
+  const seconds = Math.floor(now.getTime() / 1000);
+  const date = istDateLabel(seconds);
+  const session = getTradingSession(date);
+  const nextOpen = nextSessionOpen(seconds);
+
+  if (!session) {
+    const holiday = SPECIAL_BY_DATE.has(date) ? null : getHoliday(date);
+    return {
+      phase: holiday ? "holiday" : isWeekend(date) ? "weekend" : "closed",
+      label: holiday
+        ? `Holiday · ${holiday}`
+        : isWeekend(date)
+          ? "Weekend"
+          : "Closed",
+      session: null,
+      holiday,
+      nextOpen,
+    };
+  }
+
+  const at = (time: string) => istTimestamp(date, time);
+  const phase: MarketPhase =
+    seconds < at(session.preOpen)
+      ? "closed"
+      : seconds < at(session.open)
+        ? "pre-open"
+        : seconds < at(session.close)
+          ? "open"
+          : seconds < at(session.postClose)
+            ? "post-close"
+            : "closed";
+  const labels: Record<MarketPhase, string> = {
+    "pre-open": "Pre-open",
+    open: session.note ? `Open · ${session.note}` : "Open",
+    "post-close": "Closing session",
+    closed: "Closed",
+    holiday: "Holiday",
+    weekend: "Weekend",
+  };
+
+  return {
+    phase,
+    label: labels[phase],
+    session,
+    holiday: null,
+    nextOpen,
+  };
+}
+
+export function isMarketOpen(now = new Date()) {
+  return getMarketStatus(now).phase === "open";
+}
@@ -0,0 +1,218 @@
+import { cleanBars } from "../dataQuality";
+import { getMarketStatus } from "../marketCalendar";
+import {
+  type MarketDataErrorCode,
+  isUpstreamFailure,
+  toMarketDataError,
+} from "./errors";
+import { intervalSeconds } from "./params";
+import {
+  type CircuitBreaker,
+  createCircuitBreaker,
+  withRetries,
+} from "./resilience";
+import { getBarStore } from "./store";
+import type {
+  MarketDataProvider,
+  MarketDataRequest,
+  MarketDataResult,
+} from "./types";
+
+const OPEN_MARKET_TTL_SECONDS: Record<string, number> = {
+  "1m": 15,
+  "5m": 30,
+  "15m": 60,
+  "30m": 120,
+  "60m": 300,
+};
+const PRE_OPEN_TTL_SECONDS = 60;
+const POST_CLOSE_TTL_SECONDS = 5 * 60;
+const MAX_CLOSED_TTL_SECONDS = 60 * 60;
+const STALE_MULTIPLIER = 10;
+const MAX_ENTRIES = 200;
+
+export type CacheStatus = "hit" | "stale" | "miss";
+
+export interface CachedResult {
+  result: MarketDataResult;
+  status: CacheStatus;
+  ageSeconds: number;
+  ttlSeconds: number;
+  // Set when the upstream failed and the last good data was served instead.
+  upstreamError?: { code: MarketDataErrorCode; message: string };
+}
+
+interface CacheEntry {
+  result: MarketDataResult;
+  storedAt: number;
+  ttlSeconds: number;
+}
+
+const entries = new Map<string, CacheEntry>();
+const inflight = new Map<string, Promise<CacheEntry>>();
+const breakers = new Map<string, CircuitBreaker>();
+
+function breakerFor(provider: MarketDataProvider) {
+  let breaker = breakers.get(provider.name);
+  if (!breaker) {
+    breaker = createCircuitBreaker();
+    breakers.set(provider.name, breaker);
+  }
+  return breaker;
+}
+
+function cacheKey(provider: MarketDataProvider, request: MarketDataRequest) {
+  return [
+    provider.name,
+    request.instrument.symbol,
+    request.range,
+    request.interval,
+    request.repair,
+  ].join("|");
+}
+
+export function ttlFor(
+  request: MarketDataRequest,
+  now = new Date(),
+  alwaysOpen = false,
+) {
+  const openTtl = OPEN_MARKET_TTL_SECONDS[request.interval] ?? 60;
+  if (alwaysOpen) return openTtl;
+
+  // Nothing prints while the exchange is shut, so hold bars until the next
+  // pre-open (capped, to pick up late corrections) instead of re-polling.
+  const status = getMarketStatus(now);
+  switch (status.phase) {
+    case "open":
+      return openTtl;
+    case "pre-open":
+      return PRE_OPEN_TTL_SECONDS;
+    case "post-close":
+      return POST_CLOSE_TTL_SECONDS;
+    default: {
+      const untilOpen =
+        status.nextOpen === null
+          ? MAX_CLOSED_TTL_SECONDS
+          : status.nextOpen - Math.floor(now.getTime() / 1000);
+      return Math.max(
+        PRE_OPEN_TTL_SECONDS,
+        Math.min(MAX_CLOSED_TTL_SECONDS, untilOpen),
+      );
+    }
+  }
+}
+
+function store(key: string, entry: CacheEntry) {
+  entries.delete(key);
+  entries.set(key, entry);
+
+  while (entries.size > MAX_ENTRIES) {
+    const oldest = entries.keys().next().value;
+    if (oldest === undefined) break;
+    entries.delete(oldest);
+  }
+}
+
+function load(
+  key: string,
+  provider: MarketDataProvider,
+  request: MarketDataRequest,
+): Promise<CacheEntry> {
+  const pending = inflight.get(key);
+  if (pending) return pending;
+
+  const promise = breakerFor(provider)
+    .run(() => withRetries(() => provider.fetchIntraday(request)))
+    .then(async ({ points: raw, metadata }) => {
+      const { points, report } = cleanBars(raw, {
+        policy: request.repair,
+        intervalSeconds: intervalSeconds(request.interval),
+      });
+      if (provider.archive) {
+        // A full disk should not take the live feed down with it.
+        await getBarStore()
+          ?.record(
+            provider.name,
+            request.instrument.symbol,
+            request.interval,
+            points,
+          )
+          .catch((error: unknown) => console.error(error));
+      }
+      const entry = {
+        result: { points, metadata: { ...metadata, quality: report } },
+        storedAt: Date.now(),
+        ttlSeconds: ttlFor(request, new Date(), provider.alwaysOpen),
+      };
+      store(key, entry);
+      return entry;
+    })
+    .finally(() => {
+      inflight.delete(key);
+    });
+
+  inflight.set(key, promise);
+  return promise;
+}
+
+function describe(entry: CacheEntry, status: CacheStatus): CachedResult {
+  return {
+    result: entry.result,
+    status,
+    ageSeconds: Math.max(0, Math.floor((Date.now() - entry.storedAt) / 1000)),
+    ttlSeconds: entry.ttlSeconds,
+  };
+}
+
+export async function fetchWithCache(
+  provider: MarketDataProvider,
+  request: MarketDataRequest,
+): Promise<CachedResult> {
+  const key = cacheKey(provider, request);
+  const cached = entries.get(key);
+
+  if (cached) {
+    const ageSeconds = (Date.now() - cached.storedAt) / 1000;
+
+    if (ageSeconds < cached.ttlSeconds) {
+      return describe(cached, "hit");
+    }
+
+    if (ageSeconds < cached.ttlSeconds * STALE_MULTIPLIER) {
+      load(key, provider, request).catch(() => {
+        // Keep serving the stale entry until a refresh succeeds.
+      });
+      return describe(cached, "stale");
+    }
+  }
+
+  try {
+    return describe(await load(key, provider, request), "miss");
+  } catch (error) {
+    const failure = toMarketDataError(error);
+    const fallback =
+      failure.code === "circuit_open" || isUpstreamFailure(failure);
+    if (!cached || !fallback) throw failure;
+
+    // Better an old chart marked stale than an error panel.
+    return {
+      ...describe(cached, "stale"),
+      upstreamError: { code: failure.code, message: failure.message },
+    };
+  }
+}
+
+export function cacheHeaders({
+  status,
+  ageSeconds,
+  ttlSeconds,
+  upstreamError,
+}: CachedResult) {
+  return {
+    "X-Cache": status.toUpperCase(),
+    "X-Cache-TTL": String(ttlSeconds),
+    Age: String(ageSeconds),
+    "Cache-Control": "no-store",
+    ...(upstreamError ? { "X-Upstream-Error": upstreamError.code } : {}),
+  };
+}
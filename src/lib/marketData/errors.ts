@@ -0,0 +1,219 @@
+// Stable, machine-readable reasons a market data request can fail. Clients
+// switch on `code`; `message` is for humans and may change.
+export type MarketDataErrorCode =
+  | "invalid_request"
+  | "not_found"
+  | "malformed_data"
+  | "rate_limited"
+  | "upstream_timeout"
+  | "upstream_unavailable"
+  | "upstream_schema"
+  | "upstream_error"
+  | "circuit_open"
+  | "internal";
+
+export const MARKET_DATA_ERROR_CODES: MarketDataErrorCode[] = [
+  "invalid_request",
+  "not_found",
+  "malformed_data",
+  "rate_limited",
+  "upstream_timeout",
+  "upstream_unavailable",
+  "upstream_schema",
+  "upstream_error",
+  "circuit_open",
+  "internal",
+];
+
+const STATUS_BY_CODE: Record<MarketDataErrorCode, number> = {
+  invalid_request: 400,
+  not_found: 404,
+  malformed_data: 422,
+  rate_limited: 429,
+  upstream_timeout: 504,
+  upstream_unavailable: 502,
+  upstream_schema: 502,
+  upstream_error: 502,
+  circuit_open: 503,
+  internal: 500,
+};
+
+// Transient failures: the same request may well succeed if tried again.
+const TRANSIENT_CODES = new Set<MarketDataErrorCode>([
+  "rate_limited",
+  "upstream_timeout",
+  "upstream_unavailable",
+  "circuit_open",
+]);
+
+export interface MarketDataErrorBody {
+  error: string;
+  code: MarketDataErrorCode;
+  retryable: boolean;
+  retryAfterSeconds?: number;
+}
+
+export class MarketDataError extends Error {
+  code: MarketDataErrorCode;
+  status: number;
+  retryAfterSeconds?: number;
+
+  constructor(
+    message: string,
+    code: MarketDataErrorCode = "upstream_error",
+    options: { status?: number; retryAfterSeconds?: number } = {},
+  ) {
+    super(message);
+    this.name = "MarketDataError";
+    this.code = code;
+    this.status = options.status ?? STATUS_BY_CODE[code];
+    this.retryAfterSeconds = options.retryAfterSeconds;
+  }
+
+  get retryable() {
+    return TRANSIENT_CODES.has(this.code);
+  }
+
+  toJSON(): MarketDataErrorBody {
+    return {
+      error: this.message,
+      code: this.code,
+      retryable: this.retryable,
+      ...(this.retryAfterSeconds === undefined
+        ? {}
+        : { retryAfterSeconds: this.retryAfterSeconds }),
+    };
+  }
+}
+
+// Failures that say something about the upstream's health, as opposed to the
+// request or the instrument. These trip the circuit breaker and may be
+// papered over with the last good data.
+export function isUpstreamFailure(error: MarketDataError) {
+  return (
+    error.code === "rate_limited" ||
+    error.code === "upstream_timeout" ||
+    error.code === "upstream_unavailable" ||
+    error.code === "upstream_schema" ||
+    error.code === "upstream_error"
+  );
+}
+
+// Anything thrown below the routes ends up here, so unexpected exceptions
+// are reported as `internal` without leaking their text to clients.
+export function toMarketDataError(
+  error: unknown,
+  fallbackMessage = "Unexpected error while fetching data.",
+) {
+  if (error instanceof MarketDataError) return error;
+  console.error(error);
+  return new MarketDataError(fallbackMessage, "internal");
+}
+
+export function retryHeaders(error: MarketDataError): Record<string, string> {
+  return error.retryAfterSeconds === undefined
+    ? {}
+    : { "Retry-After": String(error.retryAfterSeconds) };
+}
+
+export function parseRetryAfter(header: string | null, now = Date.now()) {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+
+  const date = Date.parse(header);
+  return Number.isNaN(date)
+    ? undefined
+    : Math.max(0, Math.ceil((date - now) / 1000));
+}
+
+export type RetryStrategy = "backoff" | "after" | "manual" | "none";
+
+export interface ErrorGuidance {
+  message: string;
+  strategy: RetryStrategy;
+  // Starting delay for `backoff`; the default wait for `after` when the
+  // server did not say how long.
+  delaySeconds: number;
+}
+
+// How the dashboard explains each code and whether it retries on its own.
+export const ERROR_GUIDANCE: Record<MarketDataErrorCode, ErrorGuidance> = {
+  invalid_request: {
+    message: "That combination of instrument, range and interval is invalid.",
+    strategy: "none",
+    delaySeconds: 0,
+  },
+  not_found: {
+    message: "No data is available for this instrument and interval.",
+    strategy: "none",
+    delaySeconds: 0,
+  },
+  malformed_data: {
+    message: "The recorded session could not be read.",
+    strategy: "none",
+    delaySeconds: 0,
+  },
+  rate_limited: {
+    message: "The data provider is rate-limiting us.",
+    strategy: "after",
+    delaySeconds: 60,
+  },
+  upstream_timeout: {
+    message: "The data provider is responding too slowly.",
+    strategy: "backoff",
+    delaySeconds: 5,
+  },
+  upstream_unavailable: {
+    message: "The data provider is unreachable right now.",
+    strategy: "backoff",
+    delaySeconds: 5,
+  },
+  upstream_schema: {
+    message: "The data provider sent data in an unexpected format.",
+    strategy: "manual",
+    delaySeconds: 0,
+  },
+  upstream_error: {
+    message: "The data provider rejected the request.",
+    strategy: "manual",
+    delaySeconds: 0,
+  },
+  circuit_open: {
+    message:
+      "Requests to the data provider are paused after repeated failures.",
+    strategy: "after",
+    delaySeconds: 30,
+  },
+  internal: {
+    message: "Something went wrong on our side.",
+    strategy: "manual",
+    delaySeconds: 0,
+  },
+};
+
+const MAX_AUTO_RETRIES = 5;
+const MAX_BACKOFF_SECONDS = 300;
+
+// Seconds until the dashboard should retry on its own, or null when it
+// should wait for the user.
+export function autoRetryDelay(
+  code: MarketDataErrorCode,
+  attempt: number,
+  retryAfterSeconds?: number,
+) {
+  const { strategy, delaySeconds } = ERROR_GUIDANCE[code];
+  if (attempt >= MAX_AUTO_RETRIES) return null;
+  if (strategy === "after") return retryAfterSeconds ?? delaySeconds;
+  if (strategy === "backoff") {
+    return Math.min(MAX_BACKOFF_SECONDS, delaySeconds * 2 ** attempt);
+  }
+  return null;
+}
+
+export function isMarketDataErrorCode(
+  value: unknown,
+): value is MarketDataErrorCode {
+  return MARKET_DATA_ERROR_CODES.includes(value as MarketDataErrorCode);
+}
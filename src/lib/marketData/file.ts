@@ -0,0 +1,172 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { istDayKey } from "../sessions";
+import type { IntradayPoint } from "../types";
+import { sessionsForRange } from "./params";
+import { MarketDataError } from "./errors";
+import type { MarketDataProvider, MarketDataRequest } from "./types";
+
+const CSV_COLUMNS = ["timestamp", "open", "high", "low", "close", "volume"];
+
+export function recordingSlug(symbol: string) {
+  return symbol.replace(/[^A-Za-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+}
+
+function toEpochSeconds(value: string | number) {
+  if (typeof value === "number") {
+    return value > 1e12 ? Math.floor(value / 1000) : value;
+  }
+
+  const numeric = Number(value);
+  if (value.trim() !== "" && Number.isFinite(numeric)) {
+    return toEpochSeconds(numeric);
+  }
+
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? Number.NaN : Math.floor(parsed / 1000);
+}
+
+function toPoint(row: Record<string, unknown>, line: number): IntradayPoint {
+  const point = {
+    timestamp: toEpochSeconds(row.timestamp as string | number),
+    open: Number(row.open),
+    high: Number(row.high),
+    low: Number(row.low),
+    close: Number(row.close),
+    volume: Number(row.volume ?? 0),
+  };
+
+  if (Object.values(point).some((value) => !Number.isFinite(value))) {
+    throw new MarketDataError(
+      `Malformed bar at record ${line}.`,
+      "malformed_data",
+    );
+  }
+
+  return point;
+}
+
+// `skipMalformed` drops rows that do not parse, or whose cells do not line up
+// with the header, instead of rejecting the file; the header must still be
+// valid.
+export function parseBarsCsv(
+  content: string,
+  { skipMalformed = false }: { skipMalformed?: boolean } = {},
+): IntradayPoint[] {
+  const lines = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith("#"));
+
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(",").map((cell) => cell.trim().toLowerCase());
+  const missing = CSV_COLUMNS.filter(
+    (column) => column !== "volume" && !header.includes(column),
+  );
+
+  if (missing.length > 0) {
+    throw new MarketDataError(
+      `CSV header is missing column(s): ${missing.join(", ")}.`,
+      "malformed_data",
+    );
+  }
+
+  return lines.slice(1).flatMap((line, idx) => {
+    const cells = line.split(",").map((cell) => cell.trim());
+    if (skipMalformed && cells.length !== header.length) return [];
+    const row = Object.fromEntries(
+      header.map((column, columnIdx) => [column, cells[columnIdx]]),
+    );
+    try {
+      return [toPoint(row, idx + 2)];
+    } catch (error) {
+      if (skipMalformed) return [];
+      throw error;
+    }
+  });
+}
+
+export function parseBarsJson(content: string): IntradayPoint[] {
+  let payload: unknown;
+
+  try {
+    payload = JSON.parse(content);
+  } catch {
+    throw new MarketDataError("Recording is not valid JSON.", "malformed_data");
+  }
+
+  const rows = Array.isArray(payload)
+    ? payload
+    : (payload as { points?: unknown })?.points;
+
+  if (!Array.isArray(rows)) {
+    throw new MarketDataError(
+      "Recording must be an array of bars or an object with `points`.",
+      "malformed_data",
+    );
+  }
+
+  return rows.map((row, idx) =>
+    toPoint((row ?? {}) as Record<string, unknown>, idx + 1),
+  );
+}
+
+export function sliceToRange(points: IntradayPoint[], range: string) {
+  const sessions = sessionsForRange(range);
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+  const keys = Array.from(new Set(sorted.map((p) => istDayKey(p.timestamp))));
+  const keep = new Set(keys.slice(-sessions));
+
+  return sorted.filter((point) => keep.has(istDayKey(point.timestamp)));
+}
+
+async function readRecording(
+  directory: string,
+  slug: string,
+  interval: string,
+) {
+  for (const extension of ["json", "csv"] as const) {
+    const filePath = path.join(directory, `${slug}_${interval}.${extension}`);
+
+    try {
+      const content = await readFile(filePath, "utf8");
+      return extension === "json"
+        ? parseBarsJson(content)
+        : parseBarsCsv(content);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") continue;
+      throw error;
+    }
+  }
+
+  return null;
+}
+
+export function createFileProvider(directory: string): MarketDataProvider {
+  return {
+    name: "file",
+    async fetchIntraday({ instrument, range, interval }: MarketDataRequest) {
+      const points = await readRecording(
+        directory,
+        recordingSlug(instrument.symbol),
+        interval,
+      );
+
+      if (!points) {
+        throw new MarketDataError(
+          `No recorded session for ${instrument.symbol} at ${interval}.`,
+          "not_found",
+        );
+      }
+
+      return {
+        points: sliceToRange(points, range),
+        metadata: {
+          source: "file",
+          fetchedAt: Date.now(),
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,161 @@
+import { mergePoints, resamplePoints } from "../bars";
+import { emptyQualityReport } from "../dataQuality";
+import { isTradingDay } from "../marketCalendar";
+import { istDateLabel } from "../sessions";
+import { fetchWithCache } from "./cache";
+import {
+  MarketDataError,
+  type MarketDataErrorCode,
+  isUpstreamFailure,
+  toMarketDataError,
+} from "./errors";
+import { ALLOWED_RANGES, intervalSeconds, sessionsForRange } from "./params";
+import { type TimeSpan, getBarStore, intersectSpans } from "./store";
+import type {
+  MarketDataProvider,
+  MarketDataRequest,
+  MarketDataResult,
+} from "./types";
+
+// The finest interval the store keeps; coarser windows with holes are
+// patched from it.
+const BASE_INTERVAL = "1m";
+
+export interface WindowedResult {
+  result: MarketDataResult;
+  window: TimeSpan;
+  gaps: TimeSpan[];
+  resampledFrom: string | null;
+  upstreamError?: { code: MarketDataErrorCode; message: string };
+}
+
+function sessionsSince(from: number, now = Math.floor(Date.now() / 1000)) {
+  let sessions = 0;
+  for (let day = from; day <= now; day += 86_400) {
+    if (isTradingDay(istDateLabel(day))) sessions += 1;
+  }
+  return sessions;
+}
+
+// The smallest upstream range that reaches back to `from`, or null when the
+// window starts before anything the provider will return.
+export function upstreamRangeFor(from: number, now?: number) {
+  const needed = sessionsSince(from, now);
+  return (
+    Array.from(ALLOWED_RANGES)
+      .sort((a, b) => sessionsForRange(a) - sessionsForRange(b))
+      .find((range) => sessionsForRange(range) >= needed) ?? null
+  );
+}
+
+// Serves an explicit [from, to) window. Whatever part of it the provider can
+// still return is fetched first (and so recorded); the answer is then read
+// back from the bar store, with holes in a coarse interval filled by
+// resampling 1m bars. Upstream failures only matter if the store has nothing.
+export async function fetchWindow(
+  provider: MarketDataProvider,
+  request: MarketDataRequest & { window: TimeSpan },
+): Promise<WindowedResult> {
+  const { window, interval, instrument } = request;
+  const store = provider.archive ? getBarStore() : null;
+  const range = upstreamRangeFor(window.from);
+
+  let upstream: MarketDataResult | null = null;
+  let upstreamError: WindowedResult["upstreamError"];
+
+  if (range) {
+    try {
+      const cached = await fetchWithCache(provider, {
+        ...request,
+        range,
+        window: undefined,
+      });
+      upstream = cached.result;
+      upstreamError = cached.upstreamError;
+    } catch (error) {
+      const failure = toMarketDataError(error);
+      if (
+        !store ||
+        !(failure.code === "circuit_open" || isUpstreamFailure(failure))
+      ) {
+        throw failure;
+      }
+      upstreamError = { code: failure.code, message: failure.message };
+    }
+  }
+
+  const inWindow = (timestamp: number) =>
+    timestamp >= window.from && timestamp < window.to;
+
+  if (!store) {
+    if (!upstream) {
+      throw new MarketDataError(
+        `${provider.name} cannot serve ${interval} bars that far back and the bar store is off.`,
+        "not_found",
+      );
+    }
+    const points = upstream.points.filter((point) => inWindow(point.timestamp));
+    return {
+      result: { points, metadata: upstream.metadata },
+      window,
+      gaps: [],
+      resampledFrom: null,
+      upstreamError,
+    };
+  }
+
+  const stored = await store.read(
+    provider.name,
+    instrument.symbol,
+    interval,
+    window,
+  );
+  let points = stored.points;
+  let gaps = stored.gaps;
+  let resampledFrom: string | null = null;
+
+  if (gaps.length > 0 && interval !== BASE_INTERVAL) {
+    const base = await store.read(
+      provider.name,
+      instrument.symbol,
+      BASE_INTERVAL,
+      window,
+    );
+    if (base.points.length > 0) {
+      // Native bars win where both exist.
+      points = mergePoints(
+        resamplePoints(base.points, intervalSeconds(interval)),
+        points,
+      );
+      gaps = intersectSpans(gaps, base.gaps);
+      resampledFrom = BASE_INTERVAL;
+    }
+  }
+
+  if (points.length === 0) {
+    if (upstreamError) {
+      throw new MarketDataError(upstreamError.message, upstreamError.code);
+    }
+    throw new MarketDataError(
+      `No stored ${interval} bars for ${instrument.symbol} in the requested window.`,
+      "not_found",
+    );
+  }
+
+  return {
+    result: {
+      points,
+      metadata: {
+        source: "store",
+        fetchedAt: upstream?.metadata.fetchedAt ?? Date.now(),
+        quality:
+          upstream?.metadata.quality ??
+          emptyQualityReport(request.repair, points.length),
+      },
+    },
+    window,
+    gaps,
+    resampledFrom,
+    upstreamError,
+  };
+}
@@ -0,0 +1,58 @@
+import path from "node:path";
+import { createFileProvider } from "./file";
+import { simulatedProvider } from "./simulated";
+import type { MarketDataProvider } from "./types";
+import { yahooProvider } from "./yahoo";
+
+export { cacheHeaders, fetchWithCache, ttlFor } from "./cache";
+export type { CacheStatus, CachedResult } from "./cache";
+export { fetchWindow } from "./history";
+export type { WindowedResult } from "./history";
+export {
+  ALLOWED_INTERVALS,
+  ALLOWED_RANGES,
+  intervalSeconds,
+  parseIntradayQuery,
+} from "./params";
+export {
+  ERROR_GUIDANCE,
+  MarketDataError,
+  isUpstreamFailure,
+  retryHeaders,
+  toMarketDataError,
+} from "./errors";
+export type { MarketDataErrorBody, MarketDataErrorCode } from "./errors";
+export type {
+  MarketDataProvider,
+  MarketDataRequest,
+  MarketDataResult,
+  ProviderResult,
+} from "./types";
+
+const DEFAULT_RECORDINGS_DIR = path.join(process.cwd(), "data", "sessions");
+
+let provider: MarketDataProvider | null = null;
+
+export function getMarketDataProvider(): MarketDataProvider {
+  if (provider) return provider;
+
+  const kind = process.env.MARKET_DATA_PROVIDER ?? "yahoo";
+
+  switch (kind) {
+    case "file":
+      provider = createFileProvider(
+        process.env.MARKET_DATA_DIR ?? DEFAULT_RECORDINGS_DIR,
+      );
+      break;
+    case "simulated":
+      provider = simulatedProvider;
+      break;
+    case "yahoo":
+      provider = yahooProvider;
+      break;
+    default:
+      throw new Error(`Unknown MARKET_DATA_PROVIDER "${kind}".`);
+  }
+
+  return provider;
+}
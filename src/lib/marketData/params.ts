@@ -0,0 +1,116 @@
+import {
+  DEFAULT_REPAIR_POLICY,
+  REPAIR_POLICIES,
+  type RepairPolicy,
+} from "../dataQuality";
+import { DEFAULT_SYMBOL, getInstrument } from "../instruments";
+import { istTimestamp } from "../marketCalendar";
+import type { MarketDataRequest } from "./types";
+
+export const DEFAULT_RANGE = "5d";
+export const DEFAULT_INTERVAL = "5m";
+export const ALLOWED_RANGES = new Set(["1d", "5d", "1mo"]);
+export const ALLOWED_INTERVALS = new Set(["1m", "5m", "15m", "30m", "60m"]);
+
+const INTERVAL_SECONDS: Record<string, number> = {
+  "1m": 60,
+  "5m": 300,
+  "15m": 900,
+  "30m": 1_800,
+  "60m": 3_600,
+};
+
+const SESSIONS_PER_RANGE: Record<string, number> = {
+  "1d": 1,
+  "5d": 5,
+  "1mo": 22,
+};
+
+export function sessionsForRange(range: string) {
+  return SESSIONS_PER_RANGE[range] ?? SESSIONS_PER_RANGE[DEFAULT_RANGE];
+}
+
+export function intervalSeconds(interval: string) {
+  return INTERVAL_SECONDS[interval] ?? 300;
+}
+
+const MAX_WINDOW_DAYS = 366;
+
+// A bound is an IST calendar date (`2026-07-01`) or epoch seconds (or ms).
+// Dates cover the whole day, so `to=2026-07-31` includes the 31st.
+function parseBound(value: string, end: boolean) {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const start = istTimestamp(value, "00:00");
+    return Number.isNaN(start) ? null : start + (end ? 86_400 : 0);
+  }
+
+  const numeric = Number(value);
+  if (!Number.isFinite(numeric) || numeric <= 0) return null;
+  return Math.floor(numeric > 1e12 ? numeric / 1000 : numeric);
+}
+
+function parseWindow(
+  searchParams: URLSearchParams,
+): { from: number; to: number } | string | undefined {
+  const rawFrom = searchParams.get("from");
+  const rawTo = searchParams.get("to");
+  if (rawFrom === null && rawTo === null) return undefined;
+  if (rawFrom === null) return "`to` requires `from`.";
+
+  const from = parseBound(rawFrom, false);
+  const to =
+    rawTo === null ? Math.floor(Date.now() / 1000) : parseBound(rawTo, true);
+  if (from === null || to === null) {
+    return "`from` and `to` must be YYYY-MM-DD dates or epoch seconds.";
+  }
+  if (from >= to) return "`from` must be before `to`.";
+  if (to - from > MAX_WINDOW_DAYS * 86_400) {
+    return `A window may span at most ${MAX_WINDOW_DAYS} days.`;
+  }
+  return { from, to };
+}
+
+export type ParsedIntradayQuery =
+  { ok: true; request: MarketDataRequest } | { ok: false; error: string };
+
+export function parseIntradayQuery(
+  searchParams: URLSearchParams,
+): ParsedIntradayQuery {
+  const range = searchParams.get("range") ?? DEFAULT_RANGE;
+  const interval = searchParams.get("interval") ?? DEFAULT_INTERVAL;
+  const symbol = searchParams.get("symbol") ?? DEFAULT_SYMBOL;
+  const repair =
+    searchParams.get("repair") ??
+    process.env.DATA_REPAIR_POLICY ??
+    DEFAULT_REPAIR_POLICY;
+  const instrument = getInstrument(symbol);
+
+  if (!instrument) {
+    return { ok: false, error: `Unsupported symbol requested: ${symbol}.` };
+  }
+
+  if (!ALLOWED_RANGES.has(range) || !ALLOWED_INTERVALS.has(interval)) {
+    return { ok: false, error: "Invalid range or interval requested." };
+  }
+
+  if (!REPAIR_POLICIES.includes(repair as RepairPolicy)) {
+    return {
+      ok: false,
+      error: `Repair policy must be one of ${REPAIR_POLICIES.join(", ")}.`,
+    };
+  }
+
+  const window = parseWindow(searchParams);
+  if (typeof window === "string") return { ok: false, error: window };
+
+  return {
+    ok: true,
+    request: {
+      instrument,
+      range,
+      interval,
+      repair: repair as RepairPolicy,
+      ...(window ? { window } : {}),
+    },
+  };
+}
@@ -0,0 +1,131 @@
+import { MarketDataError, isUpstreamFailure } from "./errors";
+
+export interface RetryOptions {
+  // Total tries, including the first.
+  attempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY: RetryOptions = {
+  attempts: 3,
+  baseDelayMs: 250,
+  maxDelayMs: 2_000,
+};
+
+function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+// "Full jitter": a uniform delay below the exponential ceiling, so callers
+// that failed together do not retry together.
+export function backoffDelay(
+  attempt: number,
+  { baseDelayMs, maxDelayMs }: RetryOptions,
+  random = Math.random,
+) {
+  return Math.floor(
+    random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt),
+  );
+}
+
+// Retries transient failures only. A rate limit that asks us to wait longer
+// than `maxDelayMs` is surfaced instead of slept through.
+export async function withRetries<T>(
+  task: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY,
+  wait: (ms: number) => Promise<void> = sleep,
+): Promise<T> {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await task();
+    } catch (error) {
+      if (
+        !(error instanceof MarketDataError) ||
+        !error.retryable ||
+        attempt + 1 >= options.attempts
+      ) {
+        throw error;
+      }
+
+      const requested =
+        error.retryAfterSeconds === undefined
+          ? undefined
+          : error.retryAfterSeconds * 1000;
+      if (requested !== undefined && requested > options.maxDelayMs) {
+        throw error;
+      }
+      await wait(requested ?? backoffDelay(attempt, options));
+    }
+  }
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  // Consecutive upstream failures that open the circuit.
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+export const DEFAULT_CIRCUIT: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  cooldownMs: 30_000,
+};
+
+export interface CircuitBreaker {
+  state(): CircuitState;
+  run<T>(task: () => Promise<T>): Promise<T>;
+}
+
+// Stops calling an upstream that keeps failing. After `cooldownMs` one
+// probe is let through: success closes the circuit, failure re-opens it.
+// Only upstream failures count; a 404 for one symbol says nothing about the
+// provider's health.
+export function createCircuitBreaker(
+  options: CircuitBreakerOptions = DEFAULT_CIRCUIT,
+  now: () => number = Date.now,
+): CircuitBreaker {
+  let failures = 0;
+  let openedAt: number | null = null;
+  let probing = false;
+
+  const state = (): CircuitState => {
+    if (openedAt === null) return "closed";
+    return now() - openedAt >= options.cooldownMs ? "half-open" : "open";
+  };
+
+  return {
+    state,
+    async run(task) {
+      const current = state();
+      if (current === "open" || (current === "half-open" && probing)) {
+        const remainingMs =
+          openedAt === null ? 0 : options.cooldownMs - (now() - openedAt);
+        throw new MarketDataError(
+          "Upstream requests are paused after repeated failures.",
+          "circuit_open",
+          { retryAfterSeconds: Math.max(1, Math.ceil(remainingMs / 1000)) },
+        );
+      }
+
+      probing = current === "half-open";
+      try {
+        const result = await task();
+        failures = 0;
+        openedAt = null;
+        return result;
+      } catch (error) {
+        if (error instanceof MarketDataError && isUpstreamFailure(error)) {
+          failures += 1;
+          if (probing || failures >= options.failureThreshold) {
+            openedAt = now();
+          }
+        }
+        throw error;
+      } finally {
+        probing = false;
+      }
+    },
+  };
+}
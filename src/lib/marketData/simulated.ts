@@ -0,0 +1,103 @@
+import type { IntradayPoint } from "../types";
+import { intervalSeconds, sessionsForRange } from "./params";
+import type { MarketDataProvider, MarketDataRequest } from "./types";
+
+const BARS_PER_SESSION_MINUTES = 375;
+const BASE_PRICES: Record<string, number> = {
+  "^NSEI": 25_000,
+  "^NSEBANK": 56_000,
+  "NIFTY_FIN_SERVICE.NS": 26_500,
+};
+
+function hashSymbol(symbol: string) {
+  let hash = 2_166_136_261;
+  for (let i = 0; i < symbol.length; i += 1) {
+    hash ^= symbol.charCodeAt(i);
+    hash = Math.imul(hash, 16_777_619);
+  }
+  return hash >>> 0;
+}
+
+function noise(seed: number, index: number) {
+  let t = (seed ^ Math.imul(index, 2_654_435_761)) >>> 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return (((t ^ (t >>> 14)) >>> 0) / 4_294_967_296) * 2 - 1;
+}
+
+function level(base: number, seed: number, index: number) {
+  const phase = (seed % 1_000) / 100;
+  const drift =
+    0.012 * Math.sin(index / 90 + phase) +
+    0.005 * Math.sin(index / 17 + phase * 2) +
+    0.0015 * noise(seed, index);
+  return base * (1 + drift);
+}
+
+function roundPrice(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function buildBar(
+  base: number,
+  seed: number,
+  index: number,
+  span: number,
+  progress: number,
+  jitter: number,
+): IntradayPoint {
+  const open = level(base, seed, index - 1);
+  const target = level(base, seed, index);
+  const close = open + (target - open) * progress + base * 0.0002 * jitter;
+  const wick = base * 0.0004 * Math.abs(noise(seed + 1, index));
+
+  return {
+    timestamp: index * span,
+    open: roundPrice(open),
+    high: roundPrice(Math.max(open, close) + wick * progress),
+    low: roundPrice(Math.min(open, close) - wick * progress),
+    close: roundPrice(close),
+    volume: Math.round(
+      (200_000 + 600_000 * Math.abs(noise(seed + 2, index))) * progress,
+    ),
+  };
+}
+
+export const simulatedProvider: MarketDataProvider = {
+  name: "simulated",
+  alwaysOpen: true,
+  async fetchIntraday({ instrument, range, interval }: MarketDataRequest) {
+    const span = intervalSeconds(interval);
+    const seed = hashSymbol(instrument.symbol);
+    const base = BASE_PRICES[instrument.symbol] ?? 2_000;
+    const nowSeconds = Date.now() / 1000;
+    const current = Math.floor(nowSeconds / span);
+    const sessions = sessionsForRange(range);
+    const count = Math.ceil((BARS_PER_SESSION_MINUTES * 60 * sessions) / span);
+
+    const points: IntradayPoint[] = [];
+    for (let index = current - count + 1; index < current; index += 1) {
+      points.push(buildBar(base, seed, index, span, 1, 0));
+    }
+
+    const progress = Math.max(0.05, (nowSeconds - current * span) / span);
+    points.push(
+      buildBar(
+        base,
+        seed,
+        current,
+        span,
+        progress,
+        noise(seed + 3, Math.floor(nowSeconds)),
+      ),
+    );
+
+    return {
+      points,
+      metadata: {
+        source: "simulated",
+        fetchedAt: Date.now(),
+      },
+    };
+  },
+};
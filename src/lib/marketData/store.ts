@@ -0,0 +1,250 @@
+import { mkdir, readFile, readdir, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { mergePoints } from "../bars";
+import { getTradingSession, istTimestamp } from "../marketCalendar";
+import { istDateLabel } from "../sessions";
+import type { IntradayPoint } from "../types";
+import { parseBarsCsv, recordingSlug } from "./file";
+import { intervalSeconds } from "./params";
+
+// [from, to) in epoch seconds.
+export interface TimeSpan {
+  from: number;
+  to: number;
+}
+
+export interface StoredBars {
+  points: IntradayPoint[];
+  // Session time inside the window that no recorded fetch has covered.
+  gaps: TimeSpan[];
+}
+
+export interface BarStore {
+  record(
+    source: string,
+    symbol: string,
+    interval: string,
+    points: IntradayPoint[],
+  ): Promise<void>;
+  read(
+    source: string,
+    symbol: string,
+    interval: string,
+    window: TimeSpan,
+  ): Promise<StoredBars>;
+}
+
+const CSV_HEADER = "timestamp,open,high,low,close,volume\n";
+
+function toCsvRow(point: IntradayPoint) {
+  return `${point.timestamp},${point.open},${point.high},${point.low},${point.close},${point.volume}\n`;
+}
+
+function isMissing(error: unknown) {
+  return (error as NodeJS.ErrnoException).code === "ENOENT";
+}
+
+export function mergeSpans(spans: TimeSpan[]): TimeSpan[] {
+  const merged: TimeSpan[] = [];
+  [...spans]
+    .sort((a, b) => a.from - b.from)
+    .forEach((span) => {
+      const last = merged[merged.length - 1];
+      if (last && span.from <= last.to) {
+        last.to = Math.max(last.to, span.to);
+      } else {
+        merged.push({ ...span });
+      }
+    });
+  return merged;
+}
+
+export function intersectSpans(a: TimeSpan[], b: TimeSpan[]): TimeSpan[] {
+  return a.flatMap((left) =>
+    b
+      .map((right) => ({
+        from: Math.max(left.from, right.from),
+        to: Math.min(left.to, right.to),
+      }))
+      .filter((span) => span.from < span.to),
+  );
+}
+
+// Trading-session time in `window` not covered by `spans`. Pieces shorter
+// than one bar are ignored.
+export function coverageGaps(
+  spans: TimeSpan[],
+  window: TimeSpan,
+  barSeconds: number,
+): TimeSpan[] {
+  const covered = mergeSpans(spans);
+  const gaps: TimeSpan[] = [];
+
+  for (let day = window.from; day < window.to + 86_400; day += 86_400) {
+    const session = getTradingSession(istDateLabel(day));
+    if (!session) continue;
+
+    let from = Math.max(window.from, istTimestamp(session.date, session.open));
+    const to = Math.min(window.to, istTimestamp(session.date, session.close));
+    if (from >= to) continue;
+
+    covered.forEach((span) => {
+      if (span.to <= from || span.from >= to) return;
+      if (span.from - from >= barSeconds) gaps.push({ from, to: span.from });
+      from = Math.max(from, span.to);
+    });
+    if (to - from >= barSeconds) gaps.push({ from, to });
+  }
+
+  return gaps;
+}
+
+// Bar files, one CSV per instrument, interval and IST day:
+// `<dir>/<source>/<symbol>/<interval>/<YYYY-MM-DD>.csv`. New or revised bars
+// are merged into the day, which is replaced whole through a temporary file,
+// so a crash leaves either the old day or the new one. Each directory also
+// keeps `coverage.json`, the merged spans that fetches have returned, so a
+// quiet stretch can be told apart from one never fetched.
+export function createBarStore(directory: string): BarStore {
+  // Writes to one series are chained so they never interleave.
+  const queues = new Map<string, Promise<void>>();
+
+  const seriesDir = (source: string, symbol: string, interval: string) =>
+    path.join(directory, source, recordingSlug(symbol), interval);
+
+  const replaceFile = async (target: string, content: string) => {
+    await writeFile(`${target}.tmp`, content);
+    await rename(`${target}.tmp`, target);
+  };
+
+  // Every row ends in a newline, so text after the last one is a write that
+  // never finished. Rows that still do not parse (older stores appended in
+  // place) are skipped rather than making the whole day unreadable.
+  const readDay = async (dir: string, date: string) => {
+    try {
+      const content = await readFile(path.join(dir, `${date}.csv`), "utf8");
+      return mergePoints(
+        [],
+        parseBarsCsv(content.slice(0, content.lastIndexOf("\n") + 1), {
+          skipMalformed: true,
+        }),
+      );
+    } catch (error) {
+      if (isMissing(error)) return [];
+      throw error;
+    }
+  };
+
+  const readCoverage = async (dir: string): Promise<TimeSpan[]> => {
+    try {
+      return JSON.parse(
+        await readFile(path.join(dir, "coverage.json"), "utf8"),
+      );
+    } catch (error) {
+      if (isMissing(error)) return [];
+      throw error;
+    }
+  };
+
+  const writeCoverage = (dir: string, spans: TimeSpan[]) =>
+    replaceFile(path.join(dir, "coverage.json"), JSON.stringify(spans));
+
+  const append = async (
+    dir: string,
+    interval: string,
+    points: IntradayPoint[],
+  ) => {
+    await mkdir(dir, { recursive: true });
+
+    const byDay = new Map<string, IntradayPoint[]>();
+    points.forEach((point) => {
+      const date = istDateLabel(point.timestamp);
+      byDay.set(date, [...(byDay.get(date) ?? []), point]);
+    });
+
+    for (const [date, bars] of byDay) {
+      const existing = await readDay(dir, date);
+      const known = new Map(
+        existing.map((point) => [point.timestamp, toCsvRow(point)]),
+      );
+      const changed = bars.filter(
+        (point) => known.get(point.timestamp) !== toCsvRow(point),
+      );
+      if (changed.length === 0) continue;
+
+      await replaceFile(
+        path.join(dir, `${date}.csv`),
+        CSV_HEADER + mergePoints(existing, changed).map(toCsvRow).join(""),
+      );
+    }
+
+    const span = {
+      from: points[0].timestamp,
+      to: points[points.length - 1].timestamp + intervalSeconds(interval),
+    };
+    await writeCoverage(dir, mergeSpans([...(await readCoverage(dir)), span]));
+  };
+
+  return {
+    record(source, symbol, interval, points) {
+      if (points.length === 0) return Promise.resolve();
+
+      const dir = seriesDir(source, symbol, interval);
+      const previous = queues.get(dir) ?? Promise.resolve();
+      const next = previous.then(() => append(dir, interval, points));
+      const settled = next.catch(() => {});
+      queues.set(dir, settled);
+      settled.then(() => {
+        if (queues.get(dir) === settled) queues.delete(dir);
+      });
+      return next;
+    },
+
+    async read(source, symbol, interval, window) {
+      const dir = seriesDir(source, symbol, interval);
+      const files = await readdir(dir).catch((error) => {
+        if (isMissing(error)) return [] as string[];
+        throw error;
+      });
+      const first = istDateLabel(window.from);
+      const last = istDateLabel(window.to - 1);
+      const days = files
+        .filter((file) => /^\d{4}-\d{2}-\d{2}\.csv$/.test(file))
+        .map((file) => file.slice(0, 10))
+        .filter((date) => date >= first && date <= last)
+        .sort();
+
+      const points: IntradayPoint[] = [];
+      for (const date of days) {
+        (await readDay(dir, date)).forEach((point) => {
+          if (point.timestamp >= window.from && point.timestamp < window.to) {
+            points.push(point);
+          }
+        });
+      }
+
+      return {
+        points,
+        gaps: coverageGaps(
+          await readCoverage(dir),
+          window,
+          intervalSeconds(interval),
+        ),
+      };
+    },
+  };
+}
+
+const DEFAULT_STORE_DIR = path.join(process.cwd(), "data", "store");
+
+let store: BarStore | null | undefined;
+
+// `BAR_STORE_DIR=off` disables recording and windowed reads fall back to
+// whatever the provider can return.
+export function getBarStore(): BarStore | null {
+  if (store !== undefined) return store;
+
+  const dir = process.env.BAR_STORE_DIR ?? DEFAULT_STORE_DIR;
+  store = dir === "off" ? null : createBarStore(dir);
+  return store;
+}
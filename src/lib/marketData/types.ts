@@ -0,0 +1,36 @@
+import type { DataQualityReport, RawBar, RepairPolicy } from "../dataQuality";
+import type { Instrument } from "../instruments";
+import type { IntradayPoint } from "../types";
+
+export interface MarketDataRequest {
+  instrument: Instrument;
+  range: string;
+  interval: string;
+  repair: RepairPolicy;
+  // Explicit [from, to) bounds in epoch seconds; served from the bar store.
+  window?: { from: number; to: number };
+}
+
+// What a provider hands back before validation; bars may be incomplete.
+export interface ProviderResult {
+  points: RawBar[];
+  metadata: {
+    source: string;
+    fetchedAt: number;
+  };
+}
+
+export interface MarketDataResult {
+  points: IntradayPoint[];
+  metadata: ProviderResult["metadata"] & {
+    quality: DataQualityReport;
+  };
+}
+
+export interface MarketDataProvider {
+  name: string;
+  alwaysOpen?: boolean;
+  // Whether fetched bars are kept in the local bar store.
+  archive?: boolean;
+  fetchIntraday(request: MarketDataRequest): Promise<ProviderResult>;
+}
@@ -0,0 +1,134 @@
+import type { RawBar } from "../dataQuality";
+import { MarketDataError, parseRetryAfter } from "./errors";
+import type { MarketDataProvider, MarketDataRequest } from "./types";
+
+const REQUEST_TIMEOUT_MS = 8_000;
+
+type YahooChartResponse = {
+  chart: {
+    result: Array<{
+      timestamp: number[];
+      indicators: {
+        quote: Array<{
+          open: Array<number | null>;
+          close: Array<number | null>;
+          high: Array<number | null>;
+          low: Array<number | null>;
+          volume: Array<number | null>;
+        }>;
+      };
+    }>;
+    error?: {
+      code: string;
+      description: string;
+    };
+  };
+};
+
+function buildYahooUrl({ instrument, range, interval }: MarketDataRequest) {
+  return `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(
+    instrument.symbol,
+  )}?range=${range}&interval=${interval}&includePrePost=false&events=div%7Csplit%7Cearn`;
+}
+
+// Nulls are passed through untouched; `cleanBars` decides what to do with
+// them under the request's repair policy.
+export function parseYahooChart(payload: YahooChartResponse): RawBar[] {
+  if (payload.chart?.error) {
+    throw new MarketDataError(
+      payload.chart.error.description || "Data source reported an error.",
+      payload.chart.error.code === "Not Found" ? "not_found" : "upstream_error",
+    );
+  }
+
+  const series = payload.chart?.result?.[0];
+
+  if (!series || !series.timestamp || !series.indicators?.quote?.[0]) {
+    throw new MarketDataError(
+      "Data source returned an unexpected payload.",
+      "upstream_schema",
+    );
+  }
+
+  const quote = series.indicators.quote[0];
+
+  return series.timestamp.map((timestamp, idx) => ({
+    timestamp,
+    open: quote.open[idx] ?? null,
+    high: quote.high[idx] ?? null,
+    low: quote.low[idx] ?? null,
+    close: quote.close[idx] ?? null,
+    volume: quote.volume[idx] ?? null,
+  }));
+}
+
+function timeoutError() {
+  return new MarketDataError(
+    `Data source did not respond within ${REQUEST_TIMEOUT_MS / 1000}s.`,
+    "upstream_timeout",
+  );
+}
+
+function errorForStatus(response: Response) {
+  const message = `Data source responded with HTTP ${response.status}.`;
+
+  if (response.status === 429) {
+    return new MarketDataError(message, "rate_limited", {
+      retryAfterSeconds: parseRetryAfter(response.headers.get("Retry-After")),
+    });
+  }
+  if (response.status === 404) return new MarketDataError(message, "not_found");
+  if (response.status === 408 || response.status >= 500) {
+    return new MarketDataError(message, "upstream_unavailable");
+  }
+  return new MarketDataError(message, "upstream_error");
+}
+
+export const yahooProvider: MarketDataProvider = {
+  name: "yahoo",
+  archive: true,
+  async fetchIntraday(request) {
+    let response: Response;
+    try {
+      response = await fetch(buildYahooUrl(request), {
+        headers: {
+          "User-Agent":
+            "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36",
+          Accept: "application/json, text/plain, */*",
+        },
+        cache: "no-store",
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      if ((error as Error).name === "TimeoutError") throw timeoutError();
+      throw new MarketDataError(
+        "Data source could not be reached.",
+        "upstream_unavailable",
+      );
+    }
+
+    if (!response.ok) {
+      throw errorForStatus(response);
+    }
+
+    let payload: YahooChartResponse;
+    try {
+      payload = (await response.json()) as YahooChartResponse;
+    } catch (error) {
+      // The timeout also covers reading the body.
+      if ((error as Error).name === "TimeoutError") throw timeoutError();
+      throw new MarketDataError(
+        "Data source returned a response that is not JSON.",
+        "upstream_schema",
+      );
+    }
+
+    return {
+      points: parseYahooChart(payload),
+      metadata: {
+        source: "yahoo",
+        fetchedAt: Date.now(),
+      },
+    };
+  },
+};
@@ -0,0 +1,55 @@
+import { NSE_OPEN_SECONDS, istDateLabel, istSecondsOfDay } from "./sessions";
+import type { IntradayPoint, OpeningRange } from "./types";
+
+export const OPENING_RANGE_MINUTES = [5, 15, 30];
+
+// Where a bar sits relative to the opening range that starts at 09:15 IST:
+// prints before the bell are ignored, and bars that start inside the window
+// define the range even when a coarse interval runs past its end.
+export function openingRangePhase(timestamp: number, minutes: number) {
+  const seconds = istSecondsOfDay(timestamp);
+  if (seconds < NSE_OPEN_SECONDS) return "pre-open";
+  if (seconds < NSE_OPEN_SECONDS + minutes * 60) return "forming";
+  return "complete";
+}
+
+export function measureOpeningRange(
+  points: IntradayPoint[],
+  startIndex: number,
+  sessionEndIndex: number,
+  minutes: number,
+): OpeningRange | null {
+  let first = -1;
+  let last = -1;
+  let high = -Infinity;
+  let low = Infinity;
+
+  for (let i = startIndex; i <= sessionEndIndex; i += 1) {
+    const phase = openingRangePhase(points[i].timestamp, minutes);
+    if (phase === "pre-open") continue;
+    if (phase === "complete") break;
+
+    if (first < 0) first = i;
+    last = i;
+    high = Math.max(high, points[i].high);
+    low = Math.min(low, points[i].low);
+  }
+
+  if (first < 0) return null;
+
+  return {
+    date: istDateLabel(points[first].timestamp),
+    minutes,
+    startIndex: first,
+    endIndex: last,
+    sessionEndIndex,
+    high,
+    low,
+  };
+}
+
+export function normalizeRangeMinutes(minutes: number) {
+  return OPENING_RANGE_MINUTES.reduce((best, option) =>
+    Math.abs(option - minutes) < Math.abs(best - minutes) ? option : best,
+  );
+}
@@ -0,0 +1,836 @@
+import { barCloseTime } from "./confluence";
+import type { Instrument } from "./instruments";
+import { intervalSeconds } from "./marketData/params";
+import { istDayKey } from "./sessions";
+import type {
+  InsightConfidence,
+  IntradayPoint,
+  SignalMarker,
+  TradeMarker,
+} from "./types";
+
+export type TradeSide = "long" | "short";
+export type OrderType = "market" | "limit";
+export type ExitReason = "stop" | "target" | "manual" | "reverse";
+export type SizingMode = "lots" | "risk";
+
+// Flat brokerage per executed order; every other charge is a percentage of
+// turnover. Defaults follow NSE index futures.
+export interface CostModel {
+  brokeragePerOrder: number;
+  sttSellPct: number;
+  exchangePct: number;
+  sebiPct: number;
+  stampBuyPct: number;
+  gstPct: number;
+}
+
+export interface PaperSettings {
+  startingCapital: number;
+  sizing: SizingMode;
+  lots: number;
+  // Share of equity lost if the stop is hit, for `risk` sizing.
+  riskPct: number;
+  // Bracket distances from the entry price; 0 leaves that side open.
+  stopLossPct: number;
+  targetPct: number;
+  // Market and stop fills are moved this many ticks against the trade.
+  slippageTicks: number;
+  costs: CostModel;
+  autoTrade: boolean;
+  minConfidence: InsightConfidence;
+}
+
+export interface PaperOrder {
+  id: string;
+  symbol: string;
+  side: TradeSide;
+  type: OrderType;
+  lots: number;
+  limitPrice: number | null;
+  source: "manual" | "signal";
+  note: string;
+  placedAt: number;
+  status: "working" | "filled" | "cancelled";
+}
+
+export interface PaperFill {
+  id: string;
+  tradeId: string;
+  symbol: string;
+  action: "buy" | "sell";
+  quantity: number;
+  price: number;
+  costs: number;
+  timestamp: number;
+  reason: "entry" | ExitReason;
+}
+
+export interface PaperTrade {
+  id: string;
+  symbol: string;
+  side: TradeSide;
+  lots: number;
+  quantity: number;
+  entryPrice: number;
+  entryTime: number;
+  stopLoss: number | null;
+  target: number | null;
+  exitPrice: number | null;
+  exitTime: number | null;
+  exitReason: ExitReason | null;
+  // Entry and exit charges together.
+  costs: number;
+  source: "manual" | "signal";
+  note: string;
+}
+
+export interface PaperAccount {
+  orders: PaperOrder[];
+  trades: PaperTrade[];
+  fills: PaperFill[];
+  // Per symbol, when the last bar already simulated closed. A close time
+  // rather than a bar start stays meaningful when the interval changes.
+  processed: Record<string, number>;
+}
+
+export interface OrderDraft {
+  side: TradeSide;
+  type: OrderType;
+  lots: number;
+  limitPrice?: number;
+}
+
+export const DEFAULT_COSTS: CostModel = {
+  brokeragePerOrder: 20,
+  sttSellPct: 0.02,
+  exchangePct: 0.00173,
+  sebiPct: 0.0001,
+  stampBuyPct: 0.002,
+  gstPct: 18,
+};
+
+export const DEFAULT_PAPER_SETTINGS: PaperSettings = {
+  startingCapital: 500_000,
+  sizing: "lots",
+  lots: 1,
+  riskPct: 1,
+  stopLossPct: 0.3,
+  targetPct: 0.6,
+  slippageTicks: 2,
+  costs: DEFAULT_COSTS,
+  autoTrade: false,
+  minConfidence: "high",
+};
+
+export function emptyPaperAccount(): PaperAccount {
+  return { orders: [], trades: [], fills: [], processed: {} };
+}
+
+const TIERS: InsightConfidence[] = ["low", "medium", "high"];
+
+function roundToTick(price: number, tickSize: number) {
+  return Number((Math.round(price / tickSize) * tickSize).toFixed(2));
+}
+
+function entryAction(side: TradeSide) {
+  return side === "long" ? ("buy" as const) : ("sell" as const);
+}
+
+function exitAction(side: TradeSide) {
+  return side === "long" ? ("sell" as const) : ("buy" as const);
+}
+
+export function fillCosts(
+  action: "buy" | "sell",
+  price: number,
+  quantity: number,
+  costs: CostModel,
+) {
+  const turnover = price * quantity;
+  const exchange = (turnover * costs.exchangePct) / 100;
+  const sebi = (turnover * costs.sebiPct) / 100;
+  const stt = action === "sell" ? (turnover * costs.sttSellPct) / 100 : 0;
+  const stamp = action === "buy" ? (turnover * costs.stampBuyPct) / 100 : 0;
+  const gst =
+    ((costs.brokeragePerOrder + exchange + sebi) * costs.gstPct) / 100;
+  return costs.brokeragePerOrder + exchange + sebi + stt + stamp + gst;
+}
+
+function slipped(
+  price: number,
+  action: "buy" | "sell",
+  settings: PaperSettings,
+  instrument: Instrument,
+) {
+  const slip = settings.slippageTicks * instrument.tickSize;
+  return roundToTick(
+    action === "buy" ? price + slip : price - slip,
+    instrument.tickSize,
+  );
+}
+
+// Net of charges; open trades are marked at `mark`, or count only their
+// entry charges without one.
+export function tradePnl(trade: PaperTrade, mark?: number) {
+  const exit = trade.exitPrice ?? mark;
+  if (exit === undefined) return -trade.costs;
+  const sign = trade.side === "long" ? 1 : -1;
+  return sign * (exit - trade.entryPrice) * trade.quantity - trade.costs;
+}
+
+export function realizedPnl(account: PaperAccount) {
+  return account.trades
+    .filter((trade) => trade.exitTime !== null)
+    .reduce((sum, trade) => sum + tradePnl(trade), 0);
+}
+
+export function sizeLots(
+  settings: PaperSettings,
+  equity: number,
+  price: number,
+  lotSize: number,
+) {
+  if (settings.sizing === "lots" || settings.stopLossPct <= 0) {
+    return settings.lots;
+  }
+  const riskPerLot = ((price * settings.stopLossPct) / 100) * lotSize;
+  return Math.max(
+    1,
+    Math.floor((equity * settings.riskPct) / 100 / riskPerLot),
+  );
+}
+
+// Applies fills to a copy of the account. Every helper below works on it in
+// place; callers only ever see whole new accounts.
+function draftAccount(account: PaperAccount): PaperAccount {
+  return {
+    orders: [...account.orders],
+    trades: [...account.trades],
+    fills: [...account.fills],
+    processed: { ...account.processed },
+  };
+}
+
+function exitTrade(
+  draft: PaperAccount,
+  index: number,
+  price: number,
+  timestamp: number,
+  reason: ExitReason,
+  settings: PaperSettings,
+) {
+  const trade = draft.trades[index];
+  const action = exitAction(trade.side);
+  const costs = fillCosts(action, price, trade.quantity, settings.costs);
+  draft.trades[index] = {
+    ...trade,
+    exitPrice: price,
+    exitTime: timestamp,
+    exitReason: reason,
+    costs: trade.costs + costs,
+  };
+  draft.fills.push({
+    id: `fill-${draft.fills.length + 1}`,
+    tradeId: trade.id,
+    symbol: trade.symbol,
+    action,
+    quantity: trade.quantity,
+    price,
+    costs,
+    timestamp,
+    reason,
+  });
+}
+
+// Fills an entry at `price`, first closing any open trade on the other side
+// so the book holds one direction per symbol. Like `closeTrade`, that exit
+// fills at `quote`, the bar price a market fill was taken from, moved by the
+// exit's own slippage; a limit fill (`quote` null) closes it at `price`.
+function enterTrade(
+  draft: PaperAccount,
+  entry: {
+    symbol: string;
+    side: TradeSide;
+    lots: number;
+    price: number;
+    quote: number | null;
+    timestamp: number;
+    source: "manual" | "signal";
+    note: string;
+  },
+  instrument: Instrument,
+  settings: PaperSettings,
+) {
+  draft.trades.forEach((trade, index) => {
+    if (
+      trade.symbol === entry.symbol &&
+      trade.exitTime === null &&
+      trade.side !== entry.side
+    ) {
+      exitTrade(
+        draft,
+        index,
+        entry.quote === null
+          ? entry.price
+          : slipped(entry.quote, exitAction(trade.side), settings, instrument),
+        entry.timestamp,
+        "reverse",
+        settings,
+      );
+    }
+  });
+
+  const action = entryAction(entry.side);
+  const quantity = entry.lots * instrument.lotSize;
+  const costs = fillCosts(action, entry.price, quantity, settings.costs);
+  const sign = entry.side === "long" ? 1 : -1;
+  const bracket = (pct: number, direction: number) =>
+    pct > 0
+      ? roundToTick(
+          entry.price * (1 + (direction * sign * pct) / 100),
+          instrument.tickSize,
+        )
+      : null;
+  const id = `trade-${draft.trades.length + 1}`;
+
+  draft.trades.push({
+    id,
+    symbol: entry.symbol,
+    side: entry.side,
+    lots: entry.lots,
+    quantity,
+    entryPrice: entry.price,
+    entryTime: entry.timestamp,
+    stopLoss: bracket(settings.stopLossPct, -1),
+    target: bracket(settings.targetPct, 1),
+    exitPrice: null,
+    exitTime: null,
+    exitReason: null,
+    costs,
+    source: entry.source,
+    note: entry.note,
+  });
+  draft.fills.push({
+    id: `fill-${draft.fills.length + 1}`,
+    tradeId: id,
+    symbol: entry.symbol,
+    action,
+    quantity,
+    price: entry.price,
+    costs,
+    timestamp: entry.timestamp,
+    reason: "entry",
+  });
+}
+
+// Market orders fill at the close of `bar` less slippage, the same price the
+// backtest scores a signal from. Limit orders rest until a later bar trades
+// through them.
+export function placeOrder(
+  account: PaperAccount,
+  order: OrderDraft,
+  {
+    instrument,
+    bar,
+    settings,
+    source = "manual",
+    note = "",
+  }: {
+    instrument: Instrument;
+    bar: IntradayPoint;
+    settings: PaperSettings;
+    source?: "manual" | "signal";
+    note?: string;
+  },
+): PaperAccount {
+  const draft = draftAccount(account);
+  const filled = order.type === "market";
+
+  draft.orders.push({
+    id: `order-${draft.orders.length + 1}`,
+    symbol: instrument.symbol,
+    side: order.side,
+    type: order.type,
+    lots: order.lots,
+    limitPrice: filled ? null : (order.limitPrice ?? null),
+    source,
+    note,
+    placedAt: bar.timestamp,
+    status: filled ? "filled" : "working",
+  });
+
+  if (filled) {
+    enterTrade(
+      draft,
+      {
+        symbol: instrument.symbol,
+        side: order.side,
+        lots: order.lots,
+        price: slipped(
+          bar.close,
+          entryAction(order.side),
+          settings,
+          instrument,
+        ),
+        quote: bar.close,
+        timestamp: bar.timestamp,
+        source,
+        note,
+      },
+      instrument,
+      settings,
+    );
+  }
+  return draft;
+}
+
+export function cancelOrder(account: PaperAccount, id: string): PaperAccount {
+  return {
+    ...account,
+    orders: account.orders.map((order) =>
+      order.id === id && order.status === "working"
+        ? { ...order, status: "cancelled" }
+        : order,
+    ),
+  };
+}
+
+export function closeTrade(
+  account: PaperAccount,
+  id: string,
+  {
+    instrument,
+    bar,
+    settings,
+  }: { instrument: Instrument; bar: IntradayPoint; settings: PaperSettings },
+): PaperAccount {
+  const index = account.trades.findIndex(
+    (trade) => trade.id === id && trade.exitTime === null,
+  );
+  if (index < 0) return account;
+
+  const draft = draftAccount(account);
+  const action = exitAction(draft.trades[index].side);
+  exitTrade(
+    draft,
+    index,
+    slipped(bar.close, action, settings, instrument),
+    bar.timestamp,
+    "manual",
+    settings,
+  );
+  return draft;
+}
+
+// A stop fills at the stop or, if the bar opened through it, at the open,
+// less slippage. A target is a resting limit and fills at its price or a
+// better open. When one bar reaches both, the stop is assumed to come first.
+function checkBrackets(
+  draft: PaperAccount,
+  bar: IntradayPoint,
+  symbol: string,
+  instrument: Instrument,
+  settings: PaperSettings,
+) {
+  draft.trades.forEach((trade, index) => {
+    if (
+      trade.symbol !== symbol ||
+      trade.exitTime !== null ||
+      trade.entryTime >= bar.timestamp
+    ) {
+      return;
+    }
+
+    const long = trade.side === "long";
+    const stopHit =
+      trade.stopLoss !== null &&
+      (long ? bar.low <= trade.stopLoss : bar.high >= trade.stopLoss);
+    const targetHit =
+      trade.target !== null &&
+      (long ? bar.high >= trade.target : bar.low <= trade.target);
+
+    if (stopHit && trade.stopLoss !== null) {
+      const price = long
+        ? Math.min(trade.stopLoss, bar.open)
+        : Math.max(trade.stopLoss, bar.open);
+      exitTrade(
+        draft,
+        index,
+        slipped(price, exitAction(trade.side), settings, instrument),
+        bar.timestamp,
+        "stop",
+        settings,
+      );
+    } else if (targetHit && trade.target !== null) {
+      const price = long
+        ? Math.max(trade.target, bar.open)
+        : Math.min(trade.target, bar.open);
+      exitTrade(draft, index, price, bar.timestamp, "target", settings);
+    }
+  });
+}
+
+function fillLimits(
+  draft: PaperAccount,
+  bar: IntradayPoint,
+  symbol: string,
+  instrument: Instrument,
+  settings: PaperSettings,
+) {
+  draft.orders.forEach((order, index) => {
+    if (
+      order.symbol !== symbol ||
+      order.status !== "working" ||
+      order.limitPrice === null ||
+      order.placedAt >= bar.timestamp
+    ) {
+      return;
+    }
+
+    // Limit orders are day orders.
+    if (istDayKey(order.placedAt) !== istDayKey(bar.timestamp)) {
+      draft.orders[index] = { ...order, status: "cancelled" };
+      return;
+    }
+
+    const long = order.side === "long";
+    const reached = long
+      ? bar.low <= order.limitPrice
+      : bar.high >= order.limitPrice;
+    if (!reached) return;
+
+    draft.orders[index] = { ...order, status: "filled" };
+    enterTrade(
+      draft,
+      {
+        symbol,
+        side: order.side,
+        lots: order.lots,
+        price: long
+          ? Math.min(order.limitPrice, bar.open)
+          : Math.max(order.limitPrice, bar.open),
+        quote: null,
+        timestamp: bar.timestamp,
+        source: order.source,
+        note: order.note,
+      },
+      instrument,
+      settings,
+    );
+  });
+}
+
+export interface PaperContext {
+  instrument: Instrument;
+  interval: string;
+  points: IntradayPoint[];
+  // Causal markers only: each must be known by the close of its bar.
+  signals: SignalMarker[];
+}
+
+// Walks the bars the account has not seen yet: brackets and resting limits
+// are checked on every bar, and on closed bars qualifying signals are traded
+// at the close when auto-trading is on. The newest bar may still be forming,
+// so it is checked but not marked processed, and its signals wait for it to
+// close. A symbol seen for the first time starts from the latest bar, and a
+// bar that closed before the last one simulated is skipped even on another
+// interval, so history is never traded retroactively. Returns `account`
+// itself when nothing changed.
+export function advancePaperAccount(
+  account: PaperAccount,
+  { instrument, interval, points, signals }: PaperContext,
+  settings: PaperSettings,
+): PaperAccount {
+  const { symbol } = instrument;
+  const lastClosed = points.length - 2;
+  if (lastClosed < 0) return account;
+
+  const seconds = intervalSeconds(interval);
+  const closeOf = (point: IntradayPoint) =>
+    barCloseTime(point.timestamp, seconds);
+  const closedUntil = closeOf(points[lastClosed]);
+
+  const marker = account.processed[symbol];
+  if (marker === undefined) {
+    return {
+      ...account,
+      processed: { ...account.processed, [symbol]: closedUntil },
+    };
+  }
+
+  // Only the newest bars can close after the marker.
+  let first = points.length;
+  while (first > 0 && closeOf(points[first - 1]) > marker) first -= 1;
+  if (first === points.length) return account;
+
+  const hasWork =
+    first <= lastClosed ||
+    account.orders.some(
+      (order) => order.symbol === symbol && order.status === "working",
+    ) ||
+    account.trades.some(
+      (trade) => trade.symbol === symbol && trade.exitTime === null,
+    );
+  if (!hasWork) return account;
+
+  const draft = draftAccount(account);
+  const signalsByBar = new Map<number, SignalMarker[]>();
+  signals.forEach((signal) => {
+    if (
+      TIERS.indexOf(signal.confidence) < TIERS.indexOf(settings.minConfidence)
+    ) {
+      return;
+    }
+    signalsByBar.set(signal.timestamp, [
+      ...(signalsByBar.get(signal.timestamp) ?? []),
+      signal,
+    ]);
+  });
+
+  for (let index = first; index < points.length; index += 1) {
+    const bar = points[index];
+    checkBrackets(draft, bar, symbol, instrument, settings);
+    fillLimits(draft, bar, symbol, instrument, settings);
+    if (index > lastClosed || !settings.autoTrade) continue;
+
+    const fired = signalsByBar.get(bar.timestamp) ?? [];
+    const directions = new Set(fired.map((signal) => signal.direction));
+    // Detectors disagreeing on the same bar is no trade.
+    if (directions.size !== 1) continue;
+
+    const side: TradeSide = fired[0].direction === "bullish" ? "long" : "short";
+    const holding = draft.trades.some(
+      (trade) =>
+        trade.symbol === symbol &&
+        trade.exitTime === null &&
+        trade.side === side,
+    );
+    if (holding) continue;
+
+    const price = slipped(bar.close, entryAction(side), settings, instrument);
+    const equity = settings.startingCapital + realizedPnl(draft);
+    const lots = sizeLots(settings, equity, price, instrument.lotSize);
+    draft.orders.push({
+      id: `order-${draft.orders.length + 1}`,
+      symbol,
+      side,
+      type: "market",
+      lots,
+      limitPrice: null,
+      source: "signal",
+      note: fired.map((signal) => signal.label).join(", "),
+      placedAt: bar.timestamp,
+      status: "filled",
+    });
+    enterTrade(
+      draft,
+      {
+        symbol,
+        side,
+        lots,
+        price,
+        quote: bar.close,
+        timestamp: bar.timestamp,
+        source: "signal",
+        note: fired.map((signal) => signal.label).join(", "),
+      },
+      instrument,
+      settings,
+    );
+  }
+
+  draft.processed[symbol] = Math.max(marker, closedUntil);
+  const unchanged =
+    draft.processed[symbol] === marker &&
+    draft.fills.length === account.fills.length &&
+    draft.orders.every((order, index) => order === account.orders[index]);
+  return unchanged ? account : draft;
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  equity: number;
+}
+
+// Steps at every closed trade, then a final point that marks open trades at
+// `marks` (latest price per symbol) as of `now`.
+export function equityCurve(
+  account: PaperAccount,
+  startingCapital: number,
+  marks: Record<string, number>,
+  now: number,
+): EquityPoint[] {
+  if (account.trades.length === 0) return [];
+
+  const closed = account.trades
+    .filter((trade) => trade.exitTime !== null)
+    .sort((a, b) => (a.exitTime as number) - (b.exitTime as number));
+  const start = Math.min(...account.trades.map((trade) => trade.entryTime));
+  const curve: EquityPoint[] = [{ timestamp: start, equity: startingCapital }];
+
+  let equity = startingCapital;
+  closed.forEach((trade) => {
+    equity += tradePnl(trade);
+    curve.push({ timestamp: trade.exitTime as number, equity });
+  });
+
+  const open = account.trades
+    .filter((trade) => trade.exitTime === null)
+    .reduce((sum, trade) => sum + tradePnl(trade, marks[trade.symbol]), 0);
+  curve.push({
+    timestamp: Math.max(now, curve[curve.length - 1].timestamp),
+    equity: equity + open,
+  });
+  return curve;
+}
+
+export function tradeMarkers(
+  account: PaperAccount,
+  symbol: string,
+): TradeMarker[] {
+  return account.trades
+    .filter((trade) => trade.symbol === symbol)
+    .flatMap((trade): TradeMarker[] => {
+      const entry: TradeMarker = {
+        tradeId: trade.id,
+        timestamp: trade.entryTime,
+        price: trade.entryPrice,
+        kind: "entry",
+        side: trade.side,
+        label: `${trade.side === "long" ? "Buy" : "Sell"} ${trade.lots} lot${
+          trade.lots === 1 ? "" : "s"
+        }`,
+      };
+      if (trade.exitTime === null || trade.exitPrice === null) return [entry];
+
+      return [
+        entry,
+        {
+          tradeId: trade.id,
+          timestamp: trade.exitTime,
+          price: trade.exitPrice,
+          kind: "exit",
+          side: trade.side,
+          label: `Exit (${trade.exitReason}) · ${tradePnl(trade).toFixed(0)}`,
+        },
+      ];
+    });
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isSide(value: unknown): value is TradeSide {
+  return value === "long" || value === "short";
+}
+
+function isSource(value: unknown): value is "manual" | "signal" {
+  return value === "manual" || value === "signal";
+}
+
+// The account comes back from localStorage, so malformed entries are dropped
+// rather than trusted.
+export function parsePaperAccount(raw: unknown): PaperAccount {
+  if (!raw || typeof raw !== "object") return emptyPaperAccount();
+  const stored = raw as Record<string, unknown>;
+  const list = (value: unknown) =>
+    Array.isArray(value)
+      ? value.filter(
+          (entry): entry is Record<string, unknown> =>
+            !!entry && typeof entry === "object",
+        )
+      : [];
+
+  const orders = list(stored.orders).filter(
+    (order): order is Record<string, unknown> & PaperOrder =>
+      typeof order.id === "string" &&
+      typeof order.symbol === "string" &&
+      isSide(order.side) &&
+      (order.type === "market" || order.type === "limit") &&
+      isNumber(order.lots) &&
+      (order.limitPrice === null || isNumber(order.limitPrice)) &&
+      isSource(order.source) &&
+      typeof order.note === "string" &&
+      isNumber(order.placedAt) &&
+      ["working", "filled", "cancelled"].includes(order.status as string),
+  );
+  const trades = list(stored.trades).filter(
+    (trade): trade is Record<string, unknown> & PaperTrade =>
+      typeof trade.id === "string" &&
+      typeof trade.symbol === "string" &&
+      isSide(trade.side) &&
+      isNumber(trade.lots) &&
+      isNumber(trade.quantity) &&
+      isNumber(trade.entryPrice) &&
+      isNumber(trade.entryTime) &&
+      (trade.stopLoss === null || isNumber(trade.stopLoss)) &&
+      (trade.target === null || isNumber(trade.target)) &&
+      (trade.exitPrice === null || isNumber(trade.exitPrice)) &&
+      (trade.exitTime === null || isNumber(trade.exitTime)) &&
+      isNumber(trade.costs) &&
+      isSource(trade.source) &&
+      typeof trade.note === "string",
+  );
+  const fills = list(stored.fills).filter(
+    (fill): fill is Record<string, unknown> & PaperFill =>
+      typeof fill.id === "string" &&
+      typeof fill.tradeId === "string" &&
+      typeof fill.symbol === "string" &&
+      (fill.action === "buy" || fill.action === "sell") &&
+      isNumber(fill.quantity) &&
+      isNumber(fill.price) &&
+      isNumber(fill.costs) &&
+      isNumber(fill.timestamp) &&
+      typeof fill.reason === "string",
+  );
+  const processed = Object.fromEntries(
+    Object.entries(
+      stored.processed && typeof stored.processed === "object"
+        ? stored.processed
+        : {},
+    ).filter((entry): entry is [string, number] => isNumber(entry[1])),
+  );
+
+  return { orders, trades, fills, processed };
+}
+
+export function parsePaperSettings(raw: unknown): PaperSettings {
+  const stored = (raw ?? {}) as Partial<Record<keyof PaperSettings, unknown>>;
+  const defaults = DEFAULT_PAPER_SETTINGS;
+  const number = (value: unknown, fallback: number, min = 0) =>
+    isNumber(value) && value >= min ? value : fallback;
+  const costs = (stored.costs ?? {}) as Partial<
+    Record<keyof CostModel, unknown>
+  >;
+
+  return {
+    startingCapital: number(
+      stored.startingCapital,
+      defaults.startingCapital,
+      1,
+    ),
+    sizing: stored.sizing === "risk" ? "risk" : "lots",
+    lots: Math.max(1, Math.round(number(stored.lots, defaults.lots, 1))),
+    riskPct: number(stored.riskPct, defaults.riskPct),
+    stopLossPct: number(stored.stopLossPct, defaults.stopLossPct),
+    targetPct: number(stored.targetPct, defaults.targetPct),
+    slippageTicks: number(stored.slippageTicks, defaults.slippageTicks),
+    costs: {
+      brokeragePerOrder: number(
+        costs.brokeragePerOrder,
+        DEFAULT_COSTS.brokeragePerOrder,
+      ),
+      sttSellPct: number(costs.sttSellPct, DEFAULT_COSTS.sttSellPct),
+      exchangePct: number(costs.exchangePct, DEFAULT_COSTS.exchangePct),
+      sebiPct: number(costs.sebiPct, DEFAULT_COSTS.sebiPct),
+      stampBuyPct: number(costs.stampBuyPct, DEFAULT_COSTS.stampBuyPct),
+      gstPct: number(costs.gstPct, DEFAULT_COSTS.gstPct),
+    },
+    autoTrade: stored.autoTrade === true,
+    minConfidence: TIERS.includes(stored.minConfidence as InsightConfidence)
+      ? (stored.minConfidence as InsightConfidence)
+      : defaults.minConfidence,
+  };
+}
@@ -0,0 +1,61 @@
+import { detectorLabel } from "./detectors";
+import { formatIstTime } from "./sessions";
+import type {
+  AnalysisSummary,
+  DetectorEvent,
+  PatternInsight,
+  SignalMarker,
+} from "./types";
+
+// Bars revealed per second.
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 20];
+export const DEFAULT_REPLAY_SPEED = 2;
+
+// Events come back in bar order and earlier ones never change, so a
+// position in the log is stable as the replay advances. A detector can fire
+// more than once on the same bar.
+function eventId(event: DetectorEvent, position: number) {
+  return `${event.detector}-${event.index}-${position}`;
+}
+
+// Chart markers for the causal event log, each on the bar that fired it.
+export function signalsFromEvents(events: DetectorEvent[]): SignalMarker[] {
+  return events.map((event, position) => ({
+    timestamp: event.timestamp,
+    price: event.price,
+    label: detectorLabel(event.detector),
+    confidence: event.confidence,
+    direction: event.direction,
+    insightId: eventId(event, position),
+  }));
+}
+
+// Detectors' `collect` summarises the whole series it was given, so its
+// insights can be chosen in hindsight (the tightest range of the day, the
+// largest moves) and redrawn as bars arrive. In a replay only the causal
+// event log is shown: each trigger appears on the bar that fired it and
+// never moves afterwards. Everything else in the summary is already computed
+// from the visible bars alone.
+export function causalSummary(
+  summary: AnalysisSummary,
+  events: DetectorEvent[],
+  maxInsights: number,
+): AnalysisSummary {
+  const insights = events
+    .map((event, position) => ({ event, position }))
+    .slice(-maxInsights)
+    .reverse()
+    .map<PatternInsight>(({ event, position }) => ({
+      id: eventId(event, position),
+      title: detectorLabel(event.detector),
+      description: `${event.direction === "bullish" ? "Bullish" : "Bearish"} trigger on the ${formatIstTime(
+        event.timestamp,
+      )} IST bar, closing at ${event.price.toFixed(2)}.`,
+      confidence: event.confidence,
+      startIndex: event.index,
+      endIndex: event.index,
+      direction: event.direction,
+    }));
+
+  return { ...summary, insights, signals: signalsFromEvents(events) };
+}
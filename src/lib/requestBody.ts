@@ -0,0 +1,29 @@
+// Limits for bars uploaded to the headless APIs. Both run the full detector
+// set, so the bar cap bounds the work and the byte cap, comfortably above
+// MAX_BARS as JSON, is checked before anything is parsed.
+export const MAX_BARS = 10_000;
+export const MAX_BODY_BYTES = 2 * 1024 * 1024;
+
+// Reads the body up to `limit` bytes, or returns null as soon as it is larger
+// so an oversized upload is never buffered in full.
+export async function readBody(request: Request, limit: number) {
+  const declared = Number(request.headers.get("content-length"));
+  if (declared > limit) return null;
+  if (!request.body) return "";
+
+  const reader = request.body.getReader();
+  const decoder = new TextDecoder();
+  let size = 0;
+  let text = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return text + decoder.decode();
+
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+}
@@ -0,0 +1,56 @@
+import type { IntradayPoint } from "./types";
+
+export const IST_OFFSET_SECONDS = 5.5 * 60 * 60;
+export const NSE_OPEN_SECONDS = (9 * 60 + 15) * 60;
+
+export function istDayKey(timestamp: number) {
+  return Math.floor((timestamp + IST_OFFSET_SECONDS) / 86_400);
+}
+
+export function istSecondsOfDay(timestamp: number) {
+  return (timestamp + IST_OFFSET_SECONDS) % 86_400;
+}
+
+export function istDateLabel(timestamp: number) {
+  return istIso(timestamp).slice(0, 10);
+}
+
+// IST has no daylight saving, so a fixed offset formats the same wall-clock
+// time on the server, in any browser and on the chart axis.
+function istIso(timestamp: number) {
+  return new Date((timestamp + IST_OFFSET_SECONDS) * 1000).toISOString();
+}
+
+export function formatIstTime(timestamp: number) {
+  return istIso(timestamp).slice(11, 16);
+}
+
+export function formatIstDateTime(timestamp: number) {
+  const iso = istIso(timestamp);
+  return `${iso.slice(0, 10)} ${iso.slice(11, 19)} IST`;
+}
+
+export interface SessionBounds {
+  startIndex: number;
+  endIndex: number;
+}
+
+export function splitSessions(points: IntradayPoint[]): SessionBounds[] {
+  const sessions: SessionBounds[] = [];
+
+  points.forEach((point, index) => {
+    const current = sessions[sessions.length - 1];
+
+    if (
+      current &&
+      istDayKey(points[current.endIndex].timestamp) ===
+        istDayKey(point.timestamp)
+    ) {
+      current.endIndex = index;
+    } else {
+      sessions.push({ startIndex: index, endIndex: index });
+    }
+  });
+
+  return sessions;
+}
@@ -18,6 +18,28 @@ export interface PatternInsight {
   endIndex?: number;
   changePct?: number;
   direction?: "bullish" | "bearish";
+  confluence?: ConfluenceScore;
+}
+
+export type TimeframeBias = "bullish" | "bearish" | "neutral";
+
+// Agreement of the higher timeframes with an insight's direction. Each
+// component is in [-1, 1]; `score` is their weighted blend.
+export interface ConfluenceScore {
+  score: number;
+  trend: number;
+  ema: number;
+  levels: number;
+  timeframes: number;
+}
+
+export interface TimeframeAlignment {
+  interval: string;
+  primary: boolean;
+  asOf: number | null;
+  trend: TimeframeBias;
+  ema: TimeframeBias;
+  closeVsSlowPct: number;
 }
 
 export interface SignalMarker {
@@ -26,6 +48,85 @@ export interface SignalMarker {
   label: string;
   confidence: InsightConfidence;
   direction: "bullish" | "bearish";
+  // The insight this marker belongs to, when the detector emits both.
+  insightId?: string;
+}
+
+// A paper-trade fill drawn on the chart.
+export interface TradeMarker {
+  tradeId: string;
+  timestamp: number;
+  price: number;
+  kind: "entry" | "exit";
+  side: "long" | "short";
+  label: string;
+}
+
+export interface DetectorEvent {
+  detector: string;
+  index: number;
+  timestamp: number;
+  price: number;
+  direction: "bullish" | "bearish";
+  confidence: InsightConfidence;
+}
+
+export interface SessionSummary {
+  date: string;
+  startIndex: number;
+  endIndex: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  changePct: number;
+  rangePct: number;
+  gapPct: number | null;
+}
+
+export interface PriorDayLevels {
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface LevelZone {
+  id: string;
+  role: "support" | "resistance";
+  low: number;
+  high: number;
+  touches: number;
+  lastTouchIndex: number;
+  score: number;
+  confluence: string[];
+}
+
+export interface OpeningRange {
+  date: string;
+  minutes: number;
+  startIndex: number;
+  endIndex: number;
+  sessionEndIndex: number;
+  high: number;
+  low: number;
+}
+
+export interface VwapBands {
+  values: number[];
+  upper1: number[];
+  lower1: number[];
+  upper2: number[];
+  lower2: number[];
+  volumeProxy: boolean;
+}
+
+export interface AnchoredVwap {
+  id: string;
+  label: string;
+  anchorIndex: number;
+  anchorTimestamp: number;
+  values: number[];
 }
 
 export interface AnalysisSummary {
@@ -39,6 +140,13 @@ export interface AnalysisSummary {
   };
   insights: PatternInsight[];
   signals: SignalMarker[];
-  ema9: number[];
-  ema21: number[];
+  sessions: SessionSummary[];
+  priorDay: PriorDayLevels | null;
+  emaFast: number[];
+  emaSlow: number[];
+  vwap: VwapBands;
+  anchoredVwaps: AnchoredVwap[];
+  levels: LevelZone[];
+  openingRanges: OpeningRange[];
+  timeframes: TimeframeAlignment[];
 }